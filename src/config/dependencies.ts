@@ -0,0 +1,62 @@
+// Start/stop ordering for processes.config.json entries linked by dependsOn
+
+export interface DependencyPlan {
+  order: string[];                    // every process after the ones it depends on
+  stages: string[][];                 // stage n only depends on earlier stages; members of a stage can start together
+  dependsOn: Record<string, string[]>;
+  dependents: Record<string, string[]>;
+}
+
+// Throws on unknown dependencies and on cycles, naming the path, e.g. "api -> worker -> api"
+export function planDependencies(processes: Record<string, { dependsOn?: string[] }>): DependencyPlan {
+  const names = Object.keys(processes);
+  const dependsOn: Record<string, string[]> = {};
+  const dependents: Record<string, string[]> = Object.fromEntries(names.map(name => [name, []]));
+
+  for (const name of names) {
+    const deps = [...new Set(processes[name].dependsOn || [])];
+    for (const dep of deps) {
+      if (!(dep in processes)) throw new Error(`Process "${name}" depends on unknown process "${dep}"`);
+      dependents[dep].push(name);
+    }
+    dependsOn[name] = deps;
+  }
+
+  // Depth-first walk; a node met again while still on the stack closes a cycle
+  const stage = new Map<string, number>();
+  const stack: string[] = [];
+  const visit = (name: string): number => {
+    const known = stage.get(name);
+    if (known !== undefined) return known;
+    if (stack.includes(name)) {
+      const cycle = [...stack.slice(stack.indexOf(name)), name];
+      throw new Error(`Dependency cycle: ${cycle.join(' -> ')}`);
+    }
+    stack.push(name);
+    const level = Math.max(-1, ...dependsOn[name].map(visit)) + 1;
+    stack.pop();
+    stage.set(name, level);
+    return level;
+  };
+  names.forEach(visit);
+
+  const stages: string[][] = [];
+  for (const name of names) {
+    const level = stage.get(name)!;
+    (stages[level] ||= []).push(name);
+  }
+
+  return { order: stages.flat(), stages, dependsOn, dependents };
+}
+
+// The given processes plus everything they transitively depend on
+export function withDependencies(plan: DependencyPlan, roots: string[]): Set<string> {
+  const selected = new Set<string>();
+  const add = (name: string) => {
+    if (selected.has(name)) return;
+    selected.add(name);
+    plan.dependsOn[name]?.forEach(add);
+  };
+  roots.forEach(add);
+  return selected;
+}
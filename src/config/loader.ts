@@ -1,15 +1,102 @@
 import fs from 'node:fs';
 import path from 'node:path';
 import { z } from 'zod';
+import { isLocalHost, isLocalUrl } from '../process/readiness.js';
+
+export const RestartPolicySchema = z.object({
+  mode: z.enum(['never', 'on-failure', 'always']),
+  maxRetries: z.number().min(0).optional(),
+  minUptimeMs: z.number().min(0).optional(),
+  backoffMs: z.number().min(0).optional(),
+  maxBackoffMs: z.number().min(0).optional()
+});
+
+const SignalNameSchema = z.string().regex(/^SIG[A-Z0-9]+$/, 'Expected a signal name such as SIGTERM');
+
+export const StopConfigSchema = {
+  stopSignal: SignalNameSchema.optional(),
+  stopTimeoutMs: z.number().min(0).optional(),
+  stopEscalation: z.array(SignalNameSchema).optional()
+};
+
+export const TimeoutConfigSchema = {
+  maxRuntimeMs: z.number().int().min(0).optional(),
+  idleTimeoutMs: z.number().int().min(0).optional()
+};
+
+export const ReplicaConfigSchema = {
+  instances: z.number().int().min(1).optional(),
+  basePort: z.number().int().min(1).max(65535).optional()
+};
+
+export const ReadinessSchema = z.object({
+  type: z.enum(['port', 'http', 'log', 'command']),
+  port: z.number().int().min(1).max(65535).optional(),
+  host: z.string().refine(isLocalHost, 'Expected a local host: localhost, 127.0.0.0/8, ::1 or 0.0.0.0').optional(),
+  url: z.string().url().refine(isLocalUrl, 'Expected a URL on localhost, 127.0.0.0/8, ::1 or 0.0.0.0').optional(),
+  path: z.string().optional(),
+  pattern: z.string().optional(),
+  command: z.string().optional(),
+  timeoutMs: z.number().min(0).optional(),
+  intervalMs: z.number().min(50).optional()
+});
+
+export const WatchSchema = z.object({
+  paths: z.array(z.string()).optional(),
+  ignore: z.array(z.string()).optional(),
+  debounceMs: z.number().int().min(0).optional(),
+  restartSignal: SignalNameSchema.optional()
+}).strict();
+
+export const ResourceLimitsSchema = z.object({
+  maxCpuPercent: z.number().min(1).optional(),
+  maxMemoryMb: z.number().min(1).optional(),
+  sustainedMs: z.number().min(0).optional(),
+  action: z.enum(['warn', 'restart', 'kill']).optional()
+});
+
+export const ScheduleSchema = z.object({
+  cron: z.string().min(1),
+  timezone: z.string().optional(),
+  overlap: z.enum(['skip', 'queue', 'allow']).optional()
+});
+
+export const LabelsSchema = z.record(z.string());
+
+const HookSchema = z.object({
+  command: z.string().min(1),
+  timeoutMs: z.number().min(1).optional(),
+  onFailure: z.enum(['abort', 'continue']).optional()
+});
+
+export const HooksSchema = z.object({
+  preStart: HookSchema.optional(),
+  postStart: HookSchema.optional(),
+  preStop: HookSchema.optional(),
+  postStop: HookSchema.optional()
+}).strict();
 
 export const ProcessDefSchema = z.object({
   command: z.string(),
   args: z.array(z.string()).optional(),
+  shell: z.boolean().optional(),
   cwd: z.string().optional(),
   env: z.record(z.string()).optional(),
   envFiles: z.array(z.string()).optional(),
   envProfile: z.string().optional(),
   autoRestart: z.boolean().optional(),
+  restartPolicy: RestartPolicySchema.optional(),
+  startOnBoot: z.boolean().optional(),
+  interactive: z.boolean().optional(),
+  ...StopConfigSchema,
+  readiness: ReadinessSchema.optional(),
+  resourceLimits: ResourceLimitsSchema.optional(),
+  schedule: ScheduleSchema.optional(),
+  hooks: HooksSchema.optional(),
+  ...TimeoutConfigSchema,
+  watch: WatchSchema.optional(),
+  labels: LabelsSchema.optional(),
+  ...ReplicaConfigSchema,
   healthCheckCommand: z.string().optional(),
   healthCheckInterval: z.number().optional(),
   dependsOn: z.array(z.string()).optional()
@@ -22,10 +109,14 @@ export const ProcessesConfigSchema = z.object({
 
 export type ProcessesConfig = z.infer<typeof ProcessesConfigSchema>;
 
+export function resolveConfigPath(baseDir: string, relPath: string = 'processes.config.json'): string {
+  return path.isAbsolute(relPath) ? relPath : path.join(baseDir, relPath);
+}
+
 export function readProcessesConfig(baseDir: string, relPath: string = 'processes.config.json'): { config?: ProcessesConfig; issues?: string[] } {
   const issues: string[] = [];
   try {
-    const p = path.isAbsolute(relPath) ? relPath : path.join(baseDir, relPath);
+    const p = resolveConfigPath(baseDir, relPath);
     if (!fs.existsSync(p)) {
       return { issues: [`Config file not found at ${p}`] };
     }
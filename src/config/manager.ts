@@ -12,10 +12,20 @@ const ConfigSchema = z.object({
   PM_LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
   PM_ALLOWED_COMMANDS: z.string().transform(val => val.split(',')).default('/usr/bin,/usr/local/bin'),
   PM_ALLOWED_TOOL_NAMES: z.string().transform(val => val.split(',')).default(''),
+  PM_ALLOWED_CWDS: z.string().transform(val => val.split(',')).default(''),
+  PM_SHELL: z.string().default('/bin/sh'),
   PM_DANGEROUS_COMMANDS_DENYLIST: z.string().transform(val => val.split(',')).default('kill,killall,pkill,shutdown,reboot,halt,poweroff,launchctl,scutil'),
   PM_MAX_LOG_SIZE_MB: z.number().min(1).max(10000).default(100),
   PM_MAX_CPU_PERCENT: z.number().min(1).max(100).default(80),
   PM_MAX_MEMORY_MB: z.number().min(1).max(32000).default(1024),
+  PM_RESOURCE_SUSTAINED_MS: z.number().min(0).default(30000),
+  PM_RESOURCE_ACTION: z.enum(['warn', 'restart', 'kill']).default('warn'),
+  PM_SUPERVISION_MODE: z.enum(['attached', 'detached']).default('attached'),
+  PM_PROCESS_LOG_DIR: z.string().default(path.join(os.homedir(), '.mcp-process-manager', 'logs')),
+  PM_TOOL_SURFACE: z.enum(['simple', 'full', 'both']).default('both'),
+  PM_DEFAULT_MAX_RUNTIME_MS: z.number().min(0).default(0),
+  PM_DEFAULT_IDLE_TIMEOUT_MS: z.number().min(0).default(0),
+  PM_IDLE_CPU_PERCENT: z.number().min(0).max(100).default(1),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -26,6 +36,7 @@ export class ConfigManager {
   constructor() {
     this.config = this.loadConfig();
     this.validateCommandPaths();
+    this.validateCwdRoots();
   }
 
   private loadConfig(): Config {
@@ -36,7 +47,7 @@ export class ConfigManager {
       const envValue = process.env[key];
       if (envValue !== undefined) {
         // Handle type conversions
-        if (key.includes('DAYS') || key.includes('PROCESSES') || key.includes('INTERVAL') || key.includes('SIZE') || key.includes('CPU') || key.includes('MEMORY')) {
+        if (key.includes('DAYS') || key.includes('PROCESSES') || key.includes('INTERVAL') || key.includes('SIZE') || key.includes('CPU') || key.includes('MEMORY') || key.endsWith('_MS')) {
           envConfig[key] = parseInt(envValue, 10);
         } else if (key === 'PM_AUTO_RESTART_ENABLED') {
           envConfig[key] = envValue.toLowerCase() === 'true';
@@ -66,6 +77,9 @@ export class ConfigManager {
       .filter((p) => p.length > 0);
 
     parsed.PM_ALLOWED_COMMANDS = cleaned;
+    parsed.PM_ALLOWED_CWDS = (parsed.PM_ALLOWED_CWDS || [])
+      .map(expandEntry)
+      .filter((p) => p.length > 0);
 
     return parsed;
   }
@@ -80,6 +94,14 @@ export class ConfigManager {
     }
   }
 
+  private validateCwdRoots(): void {
+    for (const root of this.config.PM_ALLOWED_CWDS) {
+      if (!path.isAbsolute(root)) {
+        throw new Error(`Invalid working directory root: ${root} must be absolute`);
+      }
+    }
+  }
+
   get<K extends keyof Config>(key: K, defaultValue?: Config[K]): Config[K] {
     return this.config[key] ?? defaultValue;
   }
@@ -98,6 +120,24 @@ export class ConfigManager {
     }
   }
 
+  // Containment in PM_ALLOWED_CWDS after resolving symlinks; paths that don't exist yet are judged by their nearest existing parent
+  isPathAllowed(target: string): boolean {
+    if (this.config.PM_ALLOWED_CWDS.length === 0) return true; // Empty means allow all
+    const real = realpathNearest(path.resolve(target));
+    return this.config.PM_ALLOWED_CWDS.some((root) => {
+      const realRoot = realpathNearest(root);
+      const withSep = realRoot.endsWith(path.sep) ? realRoot : realRoot + path.sep;
+      return real === realRoot || real.startsWith(withSep);
+    });
+  }
+
+  // label names the path in the error, e.g. "Working directory" or "Env file"
+  assertPathAllowed(target: string, label: string): void {
+    if (!this.isPathAllowed(target)) {
+      throw new Error(`${label} not allowed: ${target}. To grant permission, add it or a parent directory to PM_ALLOWED_CWDS (e.g., 'pwd,~/projects'), then restart the server.`);
+    }
+  }
+
   // Resolve bare tool name via PATH if allowed in PM_ALLOWED_TOOL_NAMES; returns absolute path or null
   resolveAllowedTool(command: string): string | null {
     // Denylist guard for dangerous commands
@@ -136,4 +176,19 @@ export class ConfigManager {
   getAll(): Config {
     return { ...this.config };
   }
-}
\ No newline at end of file
+}
+
+function realpathNearest(target: string): string {
+  const missing: string[] = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(fs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = path.dirname(current);
+      if (parent === current) return target;
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
@@ -1,5 +1,78 @@
 import Database from 'better-sqlite3';
 import winston from 'winston';
+import { LogType, ProcessStatus } from '../types/process.js';
+
+const checkList = (values: string[]): string => values.map(v => `'${v}'`).join(', ');
+
+// Tables whose CHECK constraints follow an enum are built from a function so they can be rebuilt on migration
+const processesTable = (name: string): string => `
+  CREATE TABLE IF NOT EXISTS ${name} (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    command TEXT NOT NULL,
+    args TEXT,
+    env TEXT,
+    env_files TEXT,
+    env_profile TEXT,
+    cwd TEXT,
+    pid INTEGER,
+    status TEXT CHECK(status IN (${checkList(Object.values(ProcessStatus))})),
+    group_id TEXT,
+    created_at INTEGER NOT NULL,
+    started_at INTEGER,
+    stopped_at INTEGER,
+    deleted_at INTEGER,
+    restart_count INTEGER DEFAULT 0,
+    auto_restart BOOLEAN DEFAULT FALSE,
+    restart_policy TEXT,
+    start_on_boot BOOLEAN DEFAULT FALSE,
+    detached BOOLEAN DEFAULT FALSE,
+    interactive BOOLEAN DEFAULT FALSE,
+    shell BOOLEAN DEFAULT FALSE,
+    task BOOLEAN DEFAULT FALSE,
+    stop_signal TEXT,
+    stop_timeout_ms INTEGER,
+    stop_escalation TEXT,
+    readiness TEXT,
+    resource_limits TEXT,
+    schedule TEXT,
+    hooks TEXT,
+    max_runtime_ms INTEGER,
+    idle_timeout_ms INTEGER,
+    watch TEXT,
+    labels TEXT,
+    instances INTEGER,
+    base_port INTEGER,
+    ready_at INTEGER,
+    time_to_ready_ms INTEGER,
+    start_ticks INTEGER,
+    health_check_command TEXT,
+    health_check_interval INTEGER,
+    last_health_check INTEGER,
+    health_status TEXT CHECK(health_status IN ('healthy', 'unhealthy', 'unknown'))
+  )`;
+
+const logsTable = (name: string): string => `
+  CREATE TABLE IF NOT EXISTS ${name} (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    process_id TEXT NOT NULL,
+    type TEXT CHECK(type IN (${checkList(Object.values(LogType))})),
+    message TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    level TEXT CHECK(level IN ('debug', 'info', 'warn', 'error')),
+    FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE
+  )`;
+
+const INDEXES = `
+  CREATE INDEX IF NOT EXISTS idx_logs_process_timestamp ON logs(process_id, timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_errors_process_timestamp ON errors(process_id, timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_metrics_process_timestamp ON metrics(process_id, timestamp DESC);
+  CREATE INDEX IF NOT EXISTS idx_runs_process_started ON process_runs(process_id, started_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_crash_reports_process_created ON crash_reports(process_id, created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_crash_reports_error ON crash_reports(error_id);
+  CREATE INDEX IF NOT EXISTS idx_processes_group ON processes(group_id);
+  CREATE INDEX IF NOT EXISTS idx_processes_status ON processes(status);
+`;
 
 export class DatabaseManager {
   private db: Database.Database;
@@ -19,41 +92,15 @@ export class DatabaseManager {
     this.db.pragma('journal_size_limit = 67108864'); // 64MB
 
     this.initializeSchema();
+    this.migrateSchema();
     this.prepareStatements();
   }
 
   private initializeSchema(): void {
     const schema = `
-      CREATE TABLE IF NOT EXISTS processes (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        command TEXT NOT NULL,
-        args TEXT,
-        env TEXT,
-        cwd TEXT,
-        pid INTEGER,
-        status TEXT CHECK(status IN ('starting', 'running', 'stopped', 'failed', 'crashed')),
-        group_id TEXT,
-        created_at INTEGER NOT NULL,
-        started_at INTEGER,
-        stopped_at INTEGER,
-        restart_count INTEGER DEFAULT 0,
-        auto_restart BOOLEAN DEFAULT FALSE,
-        health_check_command TEXT,
-        health_check_interval INTEGER,
-        last_health_check INTEGER,
-        health_status TEXT CHECK(health_status IN ('healthy', 'unhealthy', 'unknown'))
-      );
+      ${processesTable('processes')};
 
-      CREATE TABLE IF NOT EXISTS logs (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        process_id TEXT NOT NULL,
-        type TEXT CHECK(type IN ('stdout', 'stderr', 'system')),
-        message TEXT NOT NULL,
-        timestamp INTEGER NOT NULL,
-        level TEXT CHECK(level IN ('debug', 'info', 'warn', 'error')),
-        FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE
-      );
+      ${logsTable('logs')};
 
       CREATE TABLE IF NOT EXISTS errors (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
@@ -74,6 +121,31 @@ export class DatabaseManager {
         startup_order TEXT
       );
 
+      CREATE TABLE IF NOT EXISTS schedules (
+        process_id TEXT PRIMARY KEY,
+        paused BOOLEAN DEFAULT FALSE,
+        next_run_at INTEGER,
+        last_run_at INTEGER,
+        last_run_status TEXT,
+        last_exit_code INTEGER,
+        run_count INTEGER DEFAULT 0,
+        FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE
+      );
+
+      CREATE TABLE IF NOT EXISTS process_runs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        process_id TEXT NOT NULL,
+        pid INTEGER,
+        config_hash TEXT,
+        started_at INTEGER NOT NULL,
+        ready_at INTEGER,
+        stopped_at INTEGER,
+        exit_code INTEGER,
+        signal TEXT,
+        stop_reason TEXT,
+        FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE
+      );
+
       CREATE TABLE IF NOT EXISTS metrics (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
         process_id TEXT NOT NULL,
@@ -83,23 +155,122 @@ export class DatabaseManager {
         FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE
       );
 
-      -- Create indexes
-      CREATE INDEX IF NOT EXISTS idx_logs_process_timestamp ON logs(process_id, timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_errors_process_timestamp ON errors(process_id, timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_metrics_process_timestamp ON metrics(process_id, timestamp DESC);
-      CREATE INDEX IF NOT EXISTS idx_processes_group ON processes(group_id);
-      CREATE INDEX IF NOT EXISTS idx_processes_status ON processes(status);
+      CREATE TABLE IF NOT EXISTS crash_reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        process_id TEXT NOT NULL,
+        run_id INTEGER,
+        error_id INTEGER,
+        exit_code INTEGER,
+        signal TEXT,
+        explanation TEXT NOT NULL,
+        uptime_ms INTEGER NOT NULL,
+        restart_count INTEGER NOT NULL,
+        output TEXT,
+        metrics TEXT,
+        created_at INTEGER NOT NULL,
+        FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE,
+        FOREIGN KEY (error_id) REFERENCES errors(id) ON DELETE SET NULL
+      );
     `;
 
     this.db.exec(schema);
+    this.db.exec(INDEXES);
     this.logger.info('Database schema initialized');
   }
 
+  // Bring databases created by older versions up to the current schema
+  private migrateSchema(): void {
+    this.ensureColumns('processes', {
+      env_files: 'TEXT',
+      env_profile: 'TEXT',
+      restart_policy: 'TEXT',
+      start_on_boot: 'BOOLEAN DEFAULT FALSE',
+      detached: 'BOOLEAN DEFAULT FALSE',
+      interactive: 'BOOLEAN DEFAULT FALSE',
+      shell: 'BOOLEAN DEFAULT FALSE',
+      task: 'BOOLEAN DEFAULT FALSE',
+      stop_signal: 'TEXT',
+      stop_timeout_ms: 'INTEGER',
+      stop_escalation: 'TEXT',
+      readiness: 'TEXT',
+      resource_limits: 'TEXT',
+      schedule: 'TEXT',
+      hooks: 'TEXT',
+      max_runtime_ms: 'INTEGER',
+      idle_timeout_ms: 'INTEGER',
+      watch: 'TEXT',
+      labels: 'TEXT',
+      instances: 'INTEGER',
+      base_port: 'INTEGER',
+      ready_at: 'INTEGER',
+      time_to_ready_ms: 'INTEGER',
+      start_ticks: 'INTEGER',
+      deleted_at: 'INTEGER'
+    });
+
+    const rebuilt = [
+      this.ensureCheckValues('processes', Object.values(ProcessStatus), processesTable),
+      this.ensureCheckValues('logs', Object.values(LogType), logsTable)
+    ].some(Boolean);
+
+    // Dropping a table drops its indexes too
+    if (rebuilt) this.db.exec(INDEXES);
+  }
+
+  private ensureColumns(table: string, columns: Record<string, string>): void {
+    const existing = new Set(
+      (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>).map(c => c.name)
+    );
+    for (const [name, type] of Object.entries(columns)) {
+      if (!existing.has(name)) {
+        this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${name} ${type}`);
+        this.logger.info(`Added column ${table}.${name}`);
+      }
+    }
+  }
+
+  // SQLite cannot alter a CHECK constraint, so recreate the table when an enum gained values
+  private ensureCheckValues(table: string, values: string[], createTable: (name: string) => string): boolean {
+    const row = this.db
+      .prepare("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(table) as { sql: string } | undefined;
+    if (!row || values.every(v => row.sql.includes(`'${v}'`))) return false;
+
+    const columns = (this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>)
+      .map(c => c.name)
+      .join(', ');
+
+    // Foreign keys must be off while the table is swapped, otherwise DROP cascades into child tables
+    const foreignKeys = this.db.pragma('foreign_keys', { simple: true });
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      this.transaction(() => {
+        this.db.exec(createTable(`${table}_new`));
+        this.db.exec(`INSERT INTO ${table}_new (${columns}) SELECT ${columns} FROM ${table}`);
+        this.db.exec(`DROP TABLE ${table}`);
+        this.db.exec(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+      });
+    } finally {
+      this.db.pragma(`foreign_keys = ${foreignKeys ? 'ON' : 'OFF'}`);
+    }
+
+    this.logger.info(`Migrated ${table} table to current schema`);
+    return true;
+  }
+
   private prepareStatements(): void {
     // Process management statements
+    // Ids like schedule instances ("job~1") and replicas ("api~0") come back after a delete without purge,
+    // so defining one again revives the soft-deleted row as a fresh process; its history stays
     this.preparedStatements.set('insertProcess', this.db.prepare(`
       INSERT INTO processes (id, name, command, args, env, cwd, status, created_at)
       VALUES (@id, @name, @command, @args, @env, @cwd, @status, @created_at)
+      ON CONFLICT(id) DO UPDATE SET
+        name = excluded.name, command = excluded.command, args = excluded.args, env = excluded.env,
+        cwd = excluded.cwd, status = excluded.status, created_at = excluded.created_at, deleted_at = NULL,
+        pid = NULL, started_at = NULL, stopped_at = NULL, ready_at = NULL, time_to_ready_ms = NULL,
+        start_ticks = NULL, restart_count = 0, last_health_check = NULL, health_status = NULL
+      WHERE processes.deleted_at IS NOT NULL
     `));
 
     this.preparedStatements.set('updateProcessStatus', this.db.prepare(`
@@ -108,12 +279,46 @@ export class DatabaseManager {
       WHERE id = @id
     `));
 
+    this.preparedStatements.set('updateProcessDefinition', this.db.prepare(`
+      UPDATE processes
+      SET name = @name, command = @command, args = @args, env = @env, env_files = @env_files,
+          env_profile = @env_profile, cwd = @cwd, group_id = @group_id, auto_restart = @auto_restart,
+          restart_policy = @restart_policy, start_on_boot = @start_on_boot, detached = @detached,
+          interactive = @interactive, shell = @shell, task = @task, stop_signal = @stop_signal, stop_timeout_ms = @stop_timeout_ms,
+          stop_escalation = @stop_escalation, readiness = @readiness, resource_limits = @resource_limits,
+          schedule = @schedule, hooks = @hooks, max_runtime_ms = @max_runtime_ms,
+          idle_timeout_ms = @idle_timeout_ms, watch = @watch, labels = @labels, instances = @instances, base_port = @base_port,
+          health_check_command = @health_check_command, health_check_interval = @health_check_interval
+      WHERE id = @id
+    `));
+
+    this.preparedStatements.set('updateProcessStartTicks', this.db.prepare(`
+      UPDATE processes SET start_ticks = @start_ticks WHERE id = @id
+    `));
+
+    this.preparedStatements.set('updateProcessReady', this.db.prepare(`
+      UPDATE processes SET ready_at = @ready_at, time_to_ready_ms = @time_to_ready_ms WHERE id = @id
+    `));
+
+    this.preparedStatements.set('updateProcessStoppedAt', this.db.prepare(`
+      UPDATE processes SET stopped_at = @stopped_at WHERE id = @id
+    `));
+
     this.preparedStatements.set('updateProcessHealth', this.db.prepare(`
       UPDATE processes
       SET health_status = @health_status, last_health_check = @last_health_check
       WHERE id = @id
     `));
 
+    // Deleted definitions keep their row so logs, metrics and errors stay queryable
+    this.preparedStatements.set('markProcessDeleted', this.db.prepare(`
+      UPDATE processes SET deleted_at = @deleted_at, group_id = NULL WHERE id = @id
+    `));
+
+    this.preparedStatements.set('deleteProcess', this.db.prepare(`
+      DELETE FROM processes WHERE id = ?
+    `));
+
     this.preparedStatements.set('getProcess', this.db.prepare(`
       SELECT * FROM processes WHERE id = ?
     `));
@@ -142,6 +347,67 @@ export class DatabaseManager {
       INSERT INTO metrics (process_id, cpu_usage, memory_usage, timestamp)
       VALUES (@process_id, @cpu_usage, @memory_usage, @timestamp)
     `));
+
+    this.preparedStatements.set('getRecentMetrics', this.db.prepare(`
+      SELECT cpu_usage, memory_usage, timestamp FROM metrics
+      WHERE process_id = @process_id AND timestamp >= @since
+      ORDER BY timestamp DESC
+      LIMIT @limit
+    `));
+
+    // Crash report statements
+    this.preparedStatements.set('insertCrashReport', this.db.prepare(`
+      INSERT INTO crash_reports (process_id, run_id, error_id, exit_code, signal, explanation, uptime_ms, restart_count, output, metrics, created_at)
+      VALUES (@process_id, @run_id, @error_id, @exit_code, @signal, @explanation, @uptime_ms, @restart_count, @output, @metrics, @created_at)
+    `));
+
+    // Run history statements
+    this.preparedStatements.set('insertRun', this.db.prepare(`
+      INSERT INTO process_runs (process_id, pid, config_hash, started_at)
+      VALUES (@process_id, @pid, @config_hash, @started_at)
+    `));
+
+    this.preparedStatements.set('updateRunReady', this.db.prepare(`
+      UPDATE process_runs SET ready_at = @ready_at WHERE id = @id
+    `));
+
+    this.preparedStatements.set('updateRunStopped', this.db.prepare(`
+      UPDATE process_runs
+      SET stopped_at = @stopped_at, exit_code = @exit_code, signal = @signal, stop_reason = @stop_reason
+      WHERE id = @id
+    `));
+
+    // Runs without a stop reason are still going, or their end was never observed
+    this.preparedStatements.set('getOpenRun', this.db.prepare(`
+      SELECT id FROM process_runs
+      WHERE process_id = ? AND stop_reason IS NULL
+      ORDER BY started_at DESC
+      LIMIT 1
+    `));
+
+    // Ends the run when the process last stopped if that was after it started, otherwise at @stopped_at
+    this.preparedStatements.set('closeOpenRuns', this.db.prepare(`
+      UPDATE process_runs SET stop_reason = @stop_reason,
+        stopped_at = COALESCE(
+          (SELECT stopped_at FROM processes WHERE id = @process_id AND stopped_at >= process_runs.started_at),
+          @stopped_at
+        )
+      WHERE process_id = @process_id AND stop_reason IS NULL
+    `));
+
+    // Scheduler statements
+    this.preparedStatements.set('upsertSchedule', this.db.prepare(`
+      INSERT INTO schedules (process_id, paused, next_run_at, last_run_at, last_run_status, last_exit_code, run_count)
+      VALUES (@process_id, @paused, @next_run_at, @last_run_at, @last_run_status, @last_exit_code, @run_count)
+      ON CONFLICT(process_id) DO UPDATE SET
+        paused = excluded.paused, next_run_at = excluded.next_run_at, last_run_at = excluded.last_run_at,
+        last_run_status = excluded.last_run_status, last_exit_code = excluded.last_exit_code,
+        run_count = excluded.run_count
+    `));
+
+    this.preparedStatements.set('deleteSchedule', this.db.prepare(`
+      DELETE FROM schedules WHERE process_id = ?
+    `));
   }
 
   // Transaction wrapper for atomic operations
@@ -157,6 +423,8 @@ export class DatabaseManager {
       this.db.prepare('DELETE FROM logs WHERE timestamp < ?').run(cutoffTime);
       this.db.prepare('DELETE FROM metrics WHERE timestamp < ?').run(cutoffTime);
       this.db.prepare('DELETE FROM errors WHERE timestamp < ? AND resolved = TRUE').run(cutoffTime);
+      this.db.prepare('DELETE FROM process_runs WHERE stopped_at < ?').run(cutoffTime);
+      this.db.prepare('DELETE FROM crash_reports WHERE created_at < ?').run(cutoffTime);
     });
   }
 
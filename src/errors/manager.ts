@@ -5,6 +5,7 @@ import { EventEmitter } from 'events';
 
 export interface ErrorFilter {
   processId?: string;
+  processIds?: string[];   // e.g. the processes matching a label selector
   errorType?: string;
   resolved?: boolean;
   startTime?: number;
@@ -71,11 +72,12 @@ export class ErrorManager extends EventEmitter {
   async recordError(
     processId: string,
     error: Error | string,
-    additionalContext?: Record<string, any>
+    additionalContext?: Record<string, any>,
+    errorType?: string           // skips categorization when the caller knows the type
   ): Promise<void> {
     const errorMessage = typeof error === 'string' ? error : error.message;
     const errorStack = typeof error === 'object' ? error.stack : undefined;
-    const errorType = this.categorizeError(errorMessage, errorStack);
+    errorType = errorType || this.categorizeError(errorMessage, errorStack);
 
     const errorEntry: ErrorEntry = {
       processId,
@@ -125,6 +127,11 @@ export class ErrorManager extends EventEmitter {
       params.push(filter.processId);
     }
 
+    if (filter.processIds) {
+      query += ` AND ${inClause('process_id', filter.processIds)}`;
+      params.push(...filter.processIds);
+    }
+
     if (filter.errorType) {
       query += ' AND error_type = ?';
       params.push(filter.errorType);
@@ -206,14 +213,17 @@ export class ErrorManager extends EventEmitter {
   }
 
   async getErrorSummary(
-    processId?: string,
+    processId?: string | string[],
     timeWindow?: number // milliseconds
   ): Promise<ErrorSummary> {
     const startTime = timeWindow ? Date.now() - timeWindow : 0;
     const whereClause = [];
     const params: any[] = [];
 
-    if (processId) {
+    if (Array.isArray(processId)) {
+      whereClause.push(inClause('process_id', processId));
+      params.push(...processId);
+    } else if (processId) {
       whereClause.push('process_id = ?');
       params.push(processId);
     }
@@ -387,4 +397,9 @@ export class ErrorManager extends EventEmitter {
       resolved: Boolean(row.resolved)
     }));
   }
-}
\ No newline at end of file
+}
+
+// "column IN (?, ?)"; an empty list matches nothing
+function inClause(column: string, values: string[]): string {
+  return values.length > 0 ? `${column} IN (${values.map(() => '?').join(', ')})` : '0';
+}
@@ -1,7 +1,8 @@
 import { DatabaseManager } from '../database/manager.js';
 import { ProcessManager } from '../process/manager.js';
+import { ProcessRow, processInfoFromRow, configFromInfo } from '../process/definition.js';
 import winston from 'winston';
-import { ProcessGroup, ProcessInfo, ProcessStatus, HealthStatus } from '../types/process.js';
+import { ProcessGroup, ProcessInfo, ProcessStatus, StopResult } from '../types/process.js';
 import { nanoid } from 'nanoid';
 import { EventEmitter } from 'events';
 
@@ -39,6 +40,13 @@ export class GroupManager extends EventEmitter {
     this.groups = new Map();
 
     this.loadGroups();
+
+    // Deleted processes drop out of startup orders
+    this.processManager.on('processDeleted', (processId: string) => {
+      this.removeFromGroup(processId).catch(error => {
+        this.logger.error(`Failed to remove deleted process ${processId} from groups:`, error);
+      });
+    });
   }
 
   private loadGroups(): void {
@@ -208,7 +216,7 @@ export class GroupManager extends EventEmitter {
 
     for (const process of startupSequence) {
       // Skip if already running and skipRunning is true
-      if (skipRunning && process.status === ProcessStatus.RUNNING) {
+      if (skipRunning && (process.status === ProcessStatus.RUNNING || process.status === ProcessStatus.STARTING || process.status === ProcessStatus.PAUSED)) {
         this.logger.info(`Skipping already running process ${process.id}`);
         startedProcesses.push(process);
         continue;
@@ -217,18 +225,12 @@ export class GroupManager extends EventEmitter {
       try {
         this.logger.info(`Starting process ${process.id} in group ${groupId}`);
 
-        const startedProcess = await this.processManager.startProcess({
-          id: process.id,
-          name: process.name,
-          command: process.command,
-          args: process.args,
-          env: process.env,
-          cwd: process.cwd,
-          autoRestart: process.autoRestart,
-          healthCheckCommand: process.healthCheckCommand,
-          healthCheckInterval: process.healthCheckInterval,
-          groupId: process.groupId
-        });
+        let startedProcess = await this.processManager.startProcess(configFromInfo(process));
+
+        // Later members may depend on this one, so don't move on until it reports ready
+        if (startedProcess.readiness && startupSequence.indexOf(process) < startupSequence.length - 1) {
+          startedProcess = await this.processManager.waitForReady(startedProcess.id);
+        }
 
         startedProcesses.push(startedProcess);
 
@@ -257,7 +259,7 @@ export class GroupManager extends EventEmitter {
       stopStrategy?: 'parallel' | 'reverse' | 'sequential';
       force?: boolean;
     } = {}
-  ): Promise<void> {
+  ): Promise<Record<string, StopResult>> {
     const group = this.groups.get(groupId);
     if (!group) {
       throw new Error(`Group ${groupId} not found`);
@@ -269,7 +271,7 @@ export class GroupManager extends EventEmitter {
     // Get all running processes in group
     const allProcesses = this.processManager.listProcesses();
     const groupProcesses = allProcesses.filter(
-      p => p.groupId === groupId && p.status === ProcessStatus.RUNNING
+      p => p.groupId === groupId && (p.status === ProcessStatus.RUNNING || p.status === ProcessStatus.STARTING || p.status === ProcessStatus.PAUSED)
     );
 
     // Determine stop order based on strategy
@@ -310,10 +312,12 @@ export class GroupManager extends EventEmitter {
     }
 
     // Stop processes
+    const results: Record<string, StopResult> = {};
     if (stopStrategy === 'parallel') {
       // Stop all processes in parallel
       const stopPromises = stopSequence.map(process =>
         this.processManager.stopProcess(process.id, force)
+          .then(result => { results[process.id] = result; })
           .catch(error => {
             this.logger.error(`Failed to stop process ${process.id}:`, error);
           })
@@ -324,7 +328,7 @@ export class GroupManager extends EventEmitter {
       // Stop processes sequentially
       for (const process of stopSequence) {
         try {
-          await this.processManager.stopProcess(process.id, force);
+          results[process.id] = await this.processManager.stopProcess(process.id, force);
         } catch (error) {
           this.logger.error(`Failed to stop process ${process.id}:`, error);
         }
@@ -332,6 +336,7 @@ export class GroupManager extends EventEmitter {
     }
 
     this.emit('groupStopped', { groupId });
+    return results;
   }
 
   async getGroupStatus(groupId: string): Promise<GroupStatus> {
@@ -342,50 +347,10 @@ export class GroupManager extends EventEmitter {
 
     // Get processes from database that belong to this group
     const dbProcesses = this.database.getDb()
-      .prepare('SELECT * FROM processes WHERE group_id = ?')
-      .all(groupId) as Array<{
-        id: string;
-        name: string;
-        command: string;
-        args?: string;
-        env?: string;
-        cwd?: string;
-        pid?: number;
-        status: string;
-        group_id?: string;
-        created_at: number;
-        started_at?: number;
-        stopped_at?: number;
-        restart_count: number;
-        auto_restart: number;
-        health_check_command?: string;
-        health_check_interval?: number;
-        last_health_check?: number;
-        health_status?: string;
-      }>;
-
-    const groupProcesses: ProcessInfo[] = dbProcesses.map(proc => ({
-      id: proc.id,
-      name: proc.name,
-      command: proc.command,
-      args: proc.args ? JSON.parse(proc.args) : [],
-      env: proc.env ? JSON.parse(proc.env) : {},
-      cwd: proc.cwd || process.cwd(),
-      pid: proc.pid || undefined,
-      status: proc.status as ProcessStatus,
-      groupId: proc.group_id || undefined,
-      createdAt: proc.created_at,
-      startedAt: proc.started_at || undefined,
-      stoppedAt: proc.stopped_at || undefined,
-      restartCount: proc.restart_count,
-      autoRestart: Boolean(proc.auto_restart),
-      healthCheckCommand: proc.health_check_command || undefined,
-      healthCheckInterval: proc.health_check_interval || undefined,
-      lastHealthCheck: proc.last_health_check || undefined,
-       healthStatus: proc.health_status === 'healthy' ? HealthStatus.HEALTHY :
-                    proc.health_status === 'unhealthy' ? HealthStatus.UNHEALTHY :
-                    HealthStatus.UNKNOWN
-    }));
+      .prepare('SELECT * FROM processes WHERE group_id = ? AND deleted_at IS NULL')
+      .all(groupId) as ProcessRow[];
+
+    const groupProcesses: ProcessInfo[] = dbProcesses.map(processInfoFromRow);
 
     const status: GroupStatus = {
       group,
@@ -408,6 +373,7 @@ export class GroupManager extends EventEmitter {
           break;
         case ProcessStatus.FAILED:
         case ProcessStatus.CRASHED:
+        case ProcessStatus.CRASH_LOOP:
           status.failedCount++;
           break;
       }
@@ -10,9 +10,11 @@ import { ConfigManager } from './config/manager.js';
 import { ProcessManager } from './process/manager.js';
 import { StatsCollector } from './monitoring/collector.js';
 import { HealthCheckService } from './monitoring/health.js';
+import { ResourceWatchdog } from './monitoring/watchdog.js';
 import { LogManager } from './logs/manager.js';
 import { ErrorManager } from './errors/manager.js';
 import { GroupManager } from './groups/manager.js';
+import { SchedulerManager } from './scheduler/manager.js';
 import { registerTools } from './tools/index.js';
 import { getToolsList, callTool } from './tools/registry.js';
 import { ResourceProvider } from './resources/provider.js';
@@ -65,10 +67,17 @@ async function main() {
     // Initialize group manager
     const groupManager = new GroupManager(database, processManager, logger);
 
+    // Initialize scheduler (started once boot processes are up)
+    const schedulerManager = new SchedulerManager(database, processManager, logger);
+
     // Initialize monitoring services
     const statsCollector = new StatsCollector(database, processManager, logger);
     const healthCheckService = new HealthCheckService(processManager, database, logger, config.get('PM_ALLOWED_COMMANDS'));
 
+    // Enforce PM_MAX_CPU_PERCENT / PM_MAX_MEMORY_MB and per-process resource limits
+    const resourceWatchdog = new ResourceWatchdog(statsCollector, processManager, errorManager, logManager, config, logger);
+    resourceWatchdog.start();
+
     // Start stats collection
     statsCollector.startCollection();
 
@@ -87,7 +96,7 @@ async function main() {
       }
     );
 
-    registerTools(processManager, statsCollector, healthCheckService, logManager, errorManager, groupManager, logger);
+    registerTools(processManager, statsCollector, healthCheckService, logManager, errorManager, groupManager, schedulerManager, logger, config.get('PM_TOOL_SURFACE'));
 
     // Initialize resources and prompts
     new ResourceProvider(
@@ -117,12 +126,14 @@ async function main() {
     // registerPrompts(server, processManager, logger);
 
     // Setup cleanup handlers
-    const cleanup = () => {
+    const cleanup = async () => {
       logger.info('Shutting down Process Manager MCP Server');
       statsCollector.stopCollection();
+      resourceWatchdog.stop();
+      schedulerManager.stop();
       healthCheckService.stopAllHealthChecks();
+      await processManager.shutdown();
       logManager.cleanup();
-      processManager.shutdown();
       database.close();
       process.exit(0);
     };
@@ -136,6 +147,15 @@ async function main() {
 
     logger.info('Process Manager MCP Server started successfully');
 
+    // Start persisted processes that opted into startOnBoot
+    const bootProcesses = await processManager.startBootProcesses();
+    if (bootProcesses.length > 0) {
+      logger.info(`Started ${bootProcesses.length} processes on boot`);
+    }
+
+    // Fire scheduled processes
+    schedulerManager.start();
+
     // Start periodic cleanup
     setInterval(() => {
       const retentionDays = config.get('PM_LOG_RETENTION_DAYS');
@@ -15,6 +15,14 @@ export interface SystemStats {
   uptime: number;        // Seconds
 }
 
+export interface AggregatedStats {
+  avgCpu: number;
+  maxCpu: number;
+  avgMemory: number;
+  maxMemory: number;
+  sampleCount: number;
+}
+
 export class StatsCollector extends EventEmitter {
   private database: DatabaseManager;
   private processManager: ProcessManager;
@@ -64,9 +72,9 @@ export class StatsCollector extends EventEmitter {
     this.systemStatsCache = await this.collectSystemStats();
 
     // Collect process stats
-    const processes = this.processManager.listProcesses({
-      status: ProcessStatus.RUNNING
-    });
+    const processes = this.processManager.listProcesses().filter(
+      p => p.status === ProcessStatus.RUNNING || p.status === ProcessStatus.STARTING || p.status === ProcessStatus.PAUSED
+    );
 
     const metricsPromises = processes.map(async (process) => {
       if (process.pid) {
@@ -185,13 +193,7 @@ export class StatsCollector extends EventEmitter {
     return this.collectSystemStats();
   }
 
-  async getAggregatedStats(processId: string, duration: number): Promise<{
-    avgCpu: number;
-    maxCpu: number;
-    avgMemory: number;
-    maxMemory: number;
-    sampleCount: number;
-  }> {
+  async getAggregatedStats(processId: string, duration: number): Promise<AggregatedStats> {
     const stats = await this.getProcessStats(processId, duration);
 
     if (stats.length === 0) {
@@ -215,4 +217,28 @@ export class StatsCollector extends EventEmitter {
       sampleCount: stats.length
     };
   }
-}
\ No newline at end of file
+
+  // Stats of the copies of a process with instances: averages add up to the load of all copies,
+  // maxima are those of the busiest copy
+  async getCombinedStats(processIds: string[], duration: number): Promise<{
+    aggregated: AggregatedStats;
+    instances: Array<{ processId: string; aggregated: AggregatedStats }>;
+  }> {
+    const instances = await Promise.all(processIds.map(async processId => ({
+      processId,
+      aggregated: await this.getAggregatedStats(processId, duration)
+    })));
+    const all = instances.map(i => i.aggregated);
+
+    return {
+      aggregated: {
+        avgCpu: all.reduce((sum, s) => sum + s.avgCpu, 0),
+        maxCpu: Math.max(0, ...all.map(s => s.maxCpu)),
+        avgMemory: all.reduce((sum, s) => sum + s.avgMemory, 0),
+        maxMemory: Math.max(0, ...all.map(s => s.maxMemory)),
+        sampleCount: all.reduce((sum, s) => sum + s.sampleCount, 0)
+      },
+      instances
+    };
+  }
+}
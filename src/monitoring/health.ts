@@ -1,9 +1,13 @@
 import { spawn } from 'child_process';
 import { realpath } from 'fs/promises';
+import path from 'path';
 import winston from 'winston';
 import { ProcessManager } from '../process/manager.js';
 import { DatabaseManager } from '../database/manager.js';
 import { HealthStatus, ProcessStatus } from '../types/process.js';
+import { resolveRestartPolicy } from '../process/restart.js';
+import { resolveEnv } from '../utils/env.js';
+import { splitArgs } from '../process/shell.js';
 
 export interface HealthCheckResult {
   processId: string;
@@ -46,6 +50,26 @@ export class HealthCheckService {
       };
     }
 
+    // A process still waiting for its readiness check is neither healthy nor unhealthy yet
+    if (process.status === ProcessStatus.STARTING) {
+      return {
+        processId,
+        status: HealthStatus.UNKNOWN,
+        message: 'Process is starting and not ready yet',
+        checkedAt: Date.now()
+      };
+    }
+
+    // Paused on purpose, so not a failure either
+    if (process.status === ProcessStatus.PAUSED) {
+      return {
+        processId,
+        status: HealthStatus.UNKNOWN,
+        message: 'Process is paused',
+        checkedAt: Date.now()
+      };
+    }
+
     // Check if process is running
     if (process.status !== ProcessStatus.RUNNING) {
       return {
@@ -70,7 +94,7 @@ export class HealthCheckService {
     // Execute health check command
     const startTime = Date.now();
     try {
-      const result = await this.executeHealthCheck(process.healthCheckCommand, process.env || {});
+      const result = await this.executeHealthCheck(process.healthCheckCommand, resolveEnv(process), process.cwd);
       const responseTime = Date.now() - startTime;
 
       // Update database
@@ -134,9 +158,9 @@ export class HealthCheckService {
           const processes = this.processManager.listProcesses();
           const process = processes.find(p => p.id === processId);
 
-          if (process?.autoRestart) {
+          if (process && resolveRestartPolicy(process).mode !== 'never' && this.processManager.isAutoRestartEnabled()) {
             this.logger.info(`Auto-restarting unhealthy process ${processId}`);
-            await this.processManager.restartProcess(processId);
+            await this.processManager.restartProcess(processId, undefined, 'health');
           }
         }
       } catch (error) {
@@ -162,12 +186,14 @@ export class HealthCheckService {
     this.activeChecks.clear();
   }
 
-  private async executeHealthCheck(command: string, env: Record<string, string>): Promise<{ stdout: string; stderr: string }> {
+  private async executeHealthCheck(command: string, env: Record<string, string>, cwd?: string): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
-      // Parse command - assume simple command without shell interpretation
-      const parts = command.split(/\s+/);
+      // Quotes group arguments as in a shell, but nothing is expanded or interpreted
+      const parts = splitArgs(command);
       let cmd = parts[0];
       const args = parts.slice(1);
+      // Like the process itself, ./scripts/check.sh runs from the process's cwd
+      if (cwd && cmd.includes('/') && !path.isAbsolute(cmd)) cmd = path.resolve(cwd, cmd);
 
       // Resolve bare tool name via PATH if allowed by PM_ALLOWED_TOOL_NAMES
       try {
@@ -180,6 +206,7 @@ export class HealthCheckService {
       }
 
       const child = spawn(cmd, args, {
+        cwd,
         stdio: ['ignore', 'pipe', 'pipe'],
         env: { ...process.env, ...env },
         timeout: 5000
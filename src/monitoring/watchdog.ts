@@ -0,0 +1,185 @@
+import winston from 'winston';
+import { EventEmitter } from 'events';
+import { ConfigManager } from '../config/manager.js';
+import { ErrorManager } from '../errors/manager.js';
+import { LogManager } from '../logs/manager.js';
+import { ProcessManager } from '../process/manager.js';
+import { LogLevel, LogType, ProcessMetrics, ProcessStatus, ResourceAction, ResourceLimits } from '../types/process.js';
+import { StatsCollector } from './collector.js';
+
+export type ResolvedResourceLimits = Required<ResourceLimits>;
+
+export interface ResourceViolation {
+  processId: string;
+  resource: 'cpu' | 'memory';
+  value: number;            // percent for cpu, MB for memory
+  limit: number;
+  exceededForMs: number;
+  action: ResourceAction;
+}
+
+// When each limit started being exceeded, per process
+export interface BreachState {
+  cpuSince?: number;
+  memorySince?: number;
+  lastSampleAt?: number;
+}
+
+const MB = 1024 * 1024;
+
+export function resolveResourceLimits(limits: ResourceLimits | undefined, defaults: ResolvedResourceLimits): ResolvedResourceLimits {
+  return {
+    maxCpuPercent: limits?.maxCpuPercent ?? defaults.maxCpuPercent,
+    maxMemoryMb: limits?.maxMemoryMb ?? defaults.maxMemoryMb,
+    sustainedMs: limits?.sustainedMs ?? defaults.sustainedMs,
+    action: limits?.action ?? defaults.action
+  };
+}
+
+// Update the breach windows with a new sample and return the limits that have now been exceeded
+// for the whole sustained window. A reported violation restarts its window.
+export function evaluateSample(state: BreachState, sample: ProcessMetrics, limits: ResolvedResourceLimits): ResourceViolation[] {
+  const violations: ResourceViolation[] = [];
+  const memoryMb = sample.memoryUsage / MB;
+  state.lastSampleAt = sample.timestamp;
+
+  const check = (resource: 'cpu' | 'memory', value: number, limit: number, key: 'cpuSince' | 'memorySince') => {
+    if (value <= limit) {
+      state[key] = undefined;
+      return;
+    }
+    state[key] ??= sample.timestamp;
+    const exceededForMs = sample.timestamp - state[key]!;
+    if (exceededForMs >= limits.sustainedMs) {
+      violations.push({ processId: sample.processId, resource, value, limit, exceededForMs, action: limits.action });
+      state[key] = sample.timestamp;
+    }
+  };
+
+  check('cpu', sample.cpuUsage, limits.maxCpuPercent, 'cpuSince');
+  check('memory', memoryMb, limits.maxMemoryMb, 'memorySince');
+  return violations;
+}
+
+export class ResourceWatchdog extends EventEmitter {
+  private statsCollector: StatsCollector;
+  private processManager: ProcessManager;
+  private errorManager: ErrorManager;
+  private logManager: LogManager;
+  private config: ConfigManager;
+  private logger: winston.Logger;
+  private breaches: Map<string, BreachState>;
+  private acting: Set<string>;
+  private onMetrics = (event: { processes: Map<string, ProcessMetrics[]> }) => {
+    this.checkMetrics(event.processes).catch(error => {
+      this.logger.error('Resource watchdog failed:', error);
+    });
+  };
+
+  constructor(
+    statsCollector: StatsCollector,
+    processManager: ProcessManager,
+    errorManager: ErrorManager,
+    logManager: LogManager,
+    config: ConfigManager,
+    logger: winston.Logger
+  ) {
+    super();
+    this.statsCollector = statsCollector;
+    this.processManager = processManager;
+    this.errorManager = errorManager;
+    this.logManager = logManager;
+    this.config = config;
+    this.logger = logger;
+    this.breaches = new Map();
+    this.acting = new Set();
+  }
+
+  start(): void {
+    this.statsCollector.on('metricsCollected', this.onMetrics);
+  }
+
+  stop(): void {
+    this.statsCollector.off('metricsCollected', this.onMetrics);
+    this.breaches.clear();
+  }
+
+  private get defaults(): ResolvedResourceLimits {
+    return {
+      maxCpuPercent: this.config.get('PM_MAX_CPU_PERCENT'),
+      maxMemoryMb: this.config.get('PM_MAX_MEMORY_MB'),
+      sustainedMs: this.config.get('PM_RESOURCE_SUSTAINED_MS'),
+      action: this.config.get('PM_RESOURCE_ACTION')
+    };
+  }
+
+  async checkMetrics(metrics: Map<string, ProcessMetrics[]>): Promise<ResourceViolation[]> {
+    const found: ResourceViolation[] = [];
+    const active = new Set<string>();
+
+    for (const info of this.processManager.listProcesses()) {
+      if (info.status !== ProcessStatus.RUNNING && info.status !== ProcessStatus.STARTING) continue;
+      active.add(info.id);
+
+      const samples = metrics.get(info.id);
+      const sample = samples?.[samples.length - 1];
+      const state = this.breaches.get(info.id) || {};
+      this.breaches.set(info.id, state);
+      // Samples from before the current run (e.g. prior to a restart) don't count
+      if (!sample || sample.timestamp === state.lastSampleAt || sample.timestamp < (info.startedAt || 0)) continue;
+      if (this.acting.has(info.id)) continue;
+
+      const violations = evaluateSample(state, sample, resolveResourceLimits(info.resourceLimits, this.defaults));
+      if (violations.length > 0) {
+        found.push(...violations);
+        await this.enforce(info.id, info.name, violations);
+      }
+    }
+
+    // Forget processes that stopped so a later run starts with fresh windows
+    for (const processId of this.breaches.keys()) {
+      if (!active.has(processId)) this.breaches.delete(processId);
+    }
+
+    return found;
+  }
+
+  private async enforce(processId: string, name: string, violations: ResourceViolation[]): Promise<void> {
+    const action = violations[0].action;
+
+    for (const violation of violations) {
+      const message = violation.resource === 'cpu'
+        ? `CPU usage ${violation.value.toFixed(1)}% exceeded limit of ${violation.limit}% for ${violation.exceededForMs}ms (action: ${action})`
+        : `Memory usage ${Math.round(violation.value)}MB exceeded limit of ${violation.limit}MB for ${violation.exceededForMs}ms (action: ${action})`;
+      const errorType = violation.resource === 'cpu' ? 'CpuLimitExceeded' : 'MemoryLimitExceeded';
+
+      await this.errorManager.recordError(processId, message, { ...violation }, errorType);
+      this.logManager.addLog({
+        processId,
+        type: LogType.SYSTEM,
+        message,
+        timestamp: Date.now(),
+        level: action === 'warn' ? LogLevel.WARN : LogLevel.ERROR
+      });
+      this.emit('limitExceeded', violation);
+    }
+
+    if (action === 'warn') return;
+
+    this.acting.add(processId);
+    try {
+      if (action === 'restart') {
+        this.logger.warn(`Restarting process ${name} (${processId}) after exceeding its resource limits`);
+        await this.processManager.restartProcess(processId, undefined, 'watchdog');
+      } else {
+        this.logger.warn(`Killing process ${name} (${processId}) after exceeding its resource limits`);
+        await this.processManager.killProcess(processId, 'watchdog');
+      }
+      this.breaches.delete(processId);
+    } catch (error) {
+      this.logger.error(`Resource watchdog failed to ${action} process ${processId}:`, error);
+    } finally {
+      this.acting.delete(processId);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// Postmortems of abnormal exits: the last output lines, the final metric samples and a readable exit reason
+import { constants } from 'node:os';
+import { CrashMetrics, CrashMetricSample, CrashOutputLine, CrashReport, LogType } from '../types/process.js';
+
+export const CRASH_OUTPUT_LINES = 50;
+export const CRASH_METRIC_SAMPLES = 10;
+const MAX_LINE_LENGTH = 2000;
+
+// Output that points at memory exhaustion even when the exit itself doesn't, e.g. Node's heap limit
+const OUT_OF_MEMORY = /out of memory|heap limit|OutOfMemoryError|Cannot allocate memory|MemoryError/i;
+
+const SIGNAL_EXPLANATIONS: Record<string, string> = {
+  SIGKILL: 'killed by SIGKILL, likely the kernel OOM killer (out of memory) or kill -9',
+  SIGTERM: 'terminated by SIGTERM from outside the process manager',
+  SIGINT: 'interrupted by SIGINT (Ctrl-C)',
+  SIGSEGV: 'crashed with SIGSEGV (segmentation fault in native code)',
+  SIGABRT: 'aborted with SIGABRT (failed assertion or fatal runtime error)',
+  SIGBUS: 'crashed with SIGBUS (invalid memory access)',
+  SIGFPE: 'crashed with SIGFPE (arithmetic error)',
+  SIGHUP: 'hung up by SIGHUP (controlling terminal or parent went away)',
+  SIGPIPE: 'killed by SIGPIPE (wrote to a closed pipe)',
+  SIGQUIT: 'quit by SIGQUIT',
+};
+
+const EXIT_CODE_EXPLANATIONS: Record<number, string> = {
+  1: 'general error',
+  2: 'invalid usage or arguments',
+  126: 'command found but not executable',
+  127: 'command not found',
+};
+
+function signalName(signo: number): string | undefined {
+  return Object.entries(constants.signals).find(([, value]) => value === signo)?.[0];
+}
+
+function describeSignal(signal: string): string {
+  return SIGNAL_EXPLANATIONS[signal] ?? `killed by ${signal}`;
+}
+
+// Shells report a child killed by signal n as exit code 128 + n, so 137 = SIGKILL, 143 = SIGTERM, 130 = SIGINT
+export function explainExit(code: number | null, signal: string | null, output: CrashOutputLine[] = []): string {
+  let explanation: string;
+  const shellSignal = code !== null && code > 128 ? signalName(code - 128) : undefined;
+  if (signal) {
+    explanation = describeSignal(signal);
+  } else if (shellSignal) {
+    explanation = `exit code ${code} (128 + ${code! - 128}): ${describeSignal(shellSignal)}`;
+  } else if (code !== null) {
+    explanation = `exited with code ${code}${EXIT_CODE_EXPLANATIONS[code] ? ` (${EXIT_CODE_EXPLANATIONS[code]})` : ''}`;
+  } else {
+    explanation = 'exited with an unknown status';
+  }
+
+  if (output.some(line => OUT_OF_MEMORY.test(line.message))) {
+    explanation += '; its output reports running out of memory';
+  }
+  return explanation.charAt(0).toUpperCase() + explanation.slice(1);
+}
+
+export function summarizeMetrics(samples: CrashMetricSample[]): CrashMetrics {
+  if (samples.length === 0) return { samples };
+  const memory = samples.map(s => s.memoryUsage);
+  const cpu = samples.map(s => s.cpuUsage);
+  return {
+    samples,
+    memory: {
+      firstBytes: memory[0],
+      lastBytes: memory[memory.length - 1],
+      peakBytes: Math.max(...memory),
+      changeBytes: memory[memory.length - 1] - memory[0]
+    },
+    cpu: {
+      lastPercent: cpu[cpu.length - 1],
+      averagePercent: Math.round((cpu.reduce((sum, c) => sum + c, 0) / cpu.length) * 100) / 100,
+      peakPercent: Math.max(...cpu)
+    }
+  };
+}
+
+// The last lines a process printed, kept in memory so a crash can be explained without querying the logs
+export class OutputHistory {
+  private lines: CrashOutputLine[] = [];
+
+  constructor(private limit: number = CRASH_OUTPUT_LINES) {}
+
+  push(type: LogType.STDOUT | LogType.STDERR, chunk: string): void {
+    const timestamp = Date.now();
+    for (const raw of chunk.split('\n')) {
+      if (!raw.trim()) continue;
+      const message = raw.length > MAX_LINE_LENGTH ? `${raw.slice(0, MAX_LINE_LENGTH)}…` : raw;
+      this.lines.push({ type, message, timestamp });
+    }
+    if (this.lines.length > this.limit) this.lines.splice(0, this.lines.length - this.limit);
+  }
+
+  clear(): void {
+    this.lines = [];
+  }
+
+  snapshot(): CrashOutputLine[] {
+    return [...this.lines];
+  }
+}
+
+export interface CrashReportRow {
+  id: number;
+  process_id: string;
+  run_id: number | null;
+  error_id: number | null;
+  exit_code: number | null;
+  signal: string | null;
+  explanation: string;
+  uptime_ms: number;
+  restart_count: number;
+  output: string | null;
+  metrics: string | null;
+  created_at: number;
+}
+
+export function crashReportFromRow(row: CrashReportRow): CrashReport {
+  return {
+    id: row.id,
+    processId: row.process_id,
+    runId: row.run_id ?? undefined,
+    errorId: row.error_id ?? undefined,
+    exitCode: row.exit_code ?? undefined,
+    signal: row.signal ?? undefined,
+    explanation: row.explanation,
+    uptimeMs: row.uptime_ms,
+    restartCount: row.restart_count,
+    output: row.output ? JSON.parse(row.output) : [],
+    metrics: row.metrics ? JSON.parse(row.metrics) : { samples: [] },
+    createdAt: row.created_at
+  };
+}
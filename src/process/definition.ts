@@ -0,0 +1,183 @@
+import { HealthStatus, ProcessConfig, ProcessInfo, ProcessStatus } from '../types/process.js';
+
+// Shape of a row in the processes table
+export interface ProcessRow {
+  id: string;
+  name: string;
+  command: string;
+  args?: string | null;
+  shell?: number | null;
+  env?: string | null;
+  env_files?: string | null;
+  env_profile?: string | null;
+  cwd?: string | null;
+  pid?: number | null;
+  status: string;
+  group_id?: string | null;
+  created_at: number;
+  started_at?: number | null;
+  stopped_at?: number | null;
+  restart_count: number;
+  auto_restart: number;
+  restart_policy?: string | null;
+  start_on_boot?: number | null;
+  detached?: number | null;
+  interactive?: number | null;
+  task?: number | null;
+  stop_signal?: string | null;
+  stop_timeout_ms?: number | null;
+  stop_escalation?: string | null;
+  readiness?: string | null;
+  resource_limits?: string | null;
+  schedule?: string | null;
+  hooks?: string | null;
+  max_runtime_ms?: number | null;
+  idle_timeout_ms?: number | null;
+  watch?: string | null;
+  labels?: string | null;
+  instances?: number | null;
+  base_port?: number | null;
+  ready_at?: number | null;
+  time_to_ready_ms?: number | null;
+  start_ticks?: number | null;
+  health_check_command?: string | null;
+  health_check_interval?: number | null;
+  last_health_check?: number | null;
+  health_status?: string | null;
+}
+
+export function processInfoFromRow(row: ProcessRow): ProcessInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    command: row.command,
+    args: row.args ? JSON.parse(row.args) : [],
+    shell: Boolean(row.shell),
+    env: row.env ? JSON.parse(row.env) : {},
+    envFiles: row.env_files ? JSON.parse(row.env_files) : undefined,
+    envProfile: row.env_profile || undefined,
+    cwd: row.cwd || process.cwd(),
+    pid: row.pid || undefined,
+    status: row.status as ProcessStatus,
+    groupId: row.group_id || undefined,
+    createdAt: row.created_at,
+    startedAt: row.started_at || undefined,
+    stoppedAt: row.stopped_at || undefined,
+    restartCount: row.restart_count || 0,
+    autoRestart: Boolean(row.auto_restart),
+    restartPolicy: row.restart_policy ? JSON.parse(row.restart_policy) : undefined,
+    startOnBoot: Boolean(row.start_on_boot),
+    detached: Boolean(row.detached),
+    interactive: Boolean(row.interactive),
+    task: row.task ? true : undefined,
+    stopSignal: row.stop_signal || undefined,
+    stopTimeoutMs: row.stop_timeout_ms ?? undefined,
+    stopEscalation: row.stop_escalation ? JSON.parse(row.stop_escalation) : undefined,
+    readiness: row.readiness ? JSON.parse(row.readiness) : undefined,
+    resourceLimits: row.resource_limits ? JSON.parse(row.resource_limits) : undefined,
+    schedule: row.schedule ? JSON.parse(row.schedule) : undefined,
+    hooks: row.hooks ? JSON.parse(row.hooks) : undefined,
+    maxRuntimeMs: row.max_runtime_ms ?? undefined,
+    idleTimeoutMs: row.idle_timeout_ms ?? undefined,
+    watch: row.watch ? JSON.parse(row.watch) : undefined,
+    labels: row.labels ? JSON.parse(row.labels) : undefined,
+    instances: row.instances ?? undefined,
+    basePort: row.base_port ?? undefined,
+    readyAt: row.ready_at || undefined,
+    timeToReadyMs: row.time_to_ready_ms ?? undefined,
+    healthCheckCommand: row.health_check_command || undefined,
+    healthCheckInterval: row.health_check_interval || undefined,
+    lastHealthCheck: row.last_health_check || undefined,
+    healthStatus: row.health_status === 'healthy' ? HealthStatus.HEALTHY :
+                  row.health_status === 'unhealthy' ? HealthStatus.UNHEALTHY :
+                  HealthStatus.UNKNOWN
+  };
+}
+
+// Named parameters for the updateProcessDefinition statement
+export function definitionParams(info: ProcessInfo): Record<string, unknown> {
+  return {
+    id: info.id,
+    name: info.name,
+    command: info.command,
+    args: JSON.stringify(info.args || []),
+    shell: info.shell ? 1 : 0,
+    env: JSON.stringify(info.env || {}),
+    env_files: info.envFiles ? JSON.stringify(info.envFiles) : null,
+    env_profile: info.envProfile || null,
+    cwd: info.cwd || null,
+    group_id: info.groupId || null,
+    auto_restart: info.autoRestart ? 1 : 0,
+    restart_policy: info.restartPolicy ? JSON.stringify(info.restartPolicy) : null,
+    start_on_boot: info.startOnBoot ? 1 : 0,
+    detached: info.detached ? 1 : 0,
+    interactive: info.interactive ? 1 : 0,
+    task: info.task ? 1 : 0,
+    stop_signal: info.stopSignal || null,
+    stop_timeout_ms: info.stopTimeoutMs ?? null,
+    stop_escalation: info.stopEscalation ? JSON.stringify(info.stopEscalation) : null,
+    readiness: info.readiness ? JSON.stringify(info.readiness) : null,
+    resource_limits: info.resourceLimits ? JSON.stringify(info.resourceLimits) : null,
+    schedule: info.schedule ? JSON.stringify(info.schedule) : null,
+    hooks: info.hooks && Object.keys(info.hooks).length > 0 ? JSON.stringify(info.hooks) : null,
+    max_runtime_ms: info.maxRuntimeMs ?? null,
+    idle_timeout_ms: info.idleTimeoutMs ?? null,
+    watch: info.watch ? JSON.stringify(info.watch) : null,
+    labels: info.labels && Object.keys(info.labels).length > 0 ? JSON.stringify(info.labels) : null,
+    instances: info.instances ?? null,
+    base_port: info.basePort ?? null,
+    health_check_command: info.healthCheckCommand || null,
+    health_check_interval: info.healthCheckInterval || null
+  };
+}
+
+// The persisted definition of a process, suitable for passing back to startProcess
+export function configFromInfo(info: ProcessInfo): ProcessConfig {
+  return {
+    id: info.id,
+    name: info.name,
+    command: info.command,
+    args: info.args,
+    shell: info.shell,
+    env: info.env,
+    envFiles: info.envFiles,
+    envProfile: info.envProfile,
+    cwd: info.cwd,
+    autoRestart: info.autoRestart,
+    restartPolicy: info.restartPolicy,
+    startOnBoot: info.startOnBoot,
+    detached: info.detached,
+    interactive: info.interactive,
+    task: info.task,
+    stopSignal: info.stopSignal,
+    stopTimeoutMs: info.stopTimeoutMs,
+    stopEscalation: info.stopEscalation,
+    readiness: info.readiness,
+    resourceLimits: info.resourceLimits,
+    schedule: info.schedule,
+    hooks: info.hooks,
+    maxRuntimeMs: info.maxRuntimeMs,
+    idleTimeoutMs: info.idleTimeoutMs,
+    watch: info.watch,
+    labels: info.labels,
+    instances: info.instances,
+    basePort: info.basePort,
+    healthCheckCommand: info.healthCheckCommand,
+    healthCheckInterval: info.healthCheckInterval,
+    groupId: info.groupId
+  };
+}
+
+function assign<K extends keyof ProcessConfig>(target: ProcessConfig, key: K, value: ProcessConfig[K]): void {
+  target[key] = value;
+}
+
+// A definition with the given changes applied; fields left undefined keep their current value
+export function mergeConfig(base: ProcessConfig, changes: Partial<ProcessConfig>): ProcessConfig {
+  const merged: ProcessConfig = { ...base };
+  for (const key of Object.keys(changes) as (keyof ProcessConfig)[]) {
+    const value = changes[key];
+    if (value !== undefined) assign(merged, key, value);
+  }
+  return merged;
+}
@@ -0,0 +1,58 @@
+// Lifecycle hooks: commands run around a process's start and stop, e.g. `prisma migrate deploy` before an API starts
+import { HookFailurePolicy, HookName, ProcessHook, ProcessHooks } from '../types/process.js';
+
+export const HOOK_NAMES: HookName[] = ['preStart', 'postStart', 'preStop', 'postStop'];
+export const DEFAULT_HOOK_TIMEOUT_MS = 60000;
+
+// Hook output is logged line by line; longer lines are cut
+const MAX_HOOK_LINE_LENGTH = 2000;
+
+export function isStartHook(name: HookName): boolean {
+  return name === 'preStart' || name === 'postStart';
+}
+
+export function validateHooks(hooks: ProcessHooks): void {
+  for (const [name, hook] of Object.entries(hooks) as Array<[HookName, ProcessHook | undefined]>) {
+    if (!HOOK_NAMES.includes(name)) {
+      throw new Error(`Unknown hook "${name}" (expected one of ${HOOK_NAMES.join(', ')})`);
+    }
+    if (!hook) continue;
+    if (!hook.command?.trim()) throw new Error(`Hook ${name} requires a command`);
+    if (hook.timeoutMs !== undefined && !(hook.timeoutMs > 0)) {
+      throw new Error(`Hook ${name} timeoutMs must be positive`);
+    }
+    // A stop has to go through even when its hooks fail
+    if (!isStartHook(name) && hook.onFailure === 'abort') {
+      throw new Error(`Hook ${name} cannot abort a stop; use onFailure "continue" or omit it`);
+    }
+  }
+}
+
+export function hookFailurePolicy(name: HookName, hook: ProcessHook): HookFailurePolicy {
+  if (!isStartHook(name)) return 'continue';
+  return hook.onFailure ?? 'abort';
+}
+
+// Splits streamed output into complete lines, holding back a trailing partial line until the next chunk
+export class LineSplitter {
+  private partial = '';
+
+  constructor(private onLine: (line: string) => void) {}
+
+  push(chunk: string): void {
+    const lines = (this.partial + chunk).split('\n');
+    this.partial = lines.pop() ?? '';
+    lines.forEach(line => this.emit(line));
+  }
+
+  flush(): void {
+    if (this.partial) this.emit(this.partial);
+    this.partial = '';
+  }
+
+  private emit(raw: string): void {
+    const line = raw.replace(/\r$/, '');
+    if (!line.trim()) return;
+    this.onLine(line.length > MAX_HOOK_LINE_LENGTH ? `${line.slice(0, MAX_HOOK_LINE_LENGTH)}…` : line);
+  }
+}
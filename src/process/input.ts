@@ -0,0 +1,68 @@
+// Encoding of send_input payloads. Managed processes read stdin from a pipe, not a TTY,
+// so keys are sent as the bytes a terminal would produce and line-based prompts need Enter.
+
+const NAMED_KEYS: Record<string, string> = {
+  enter: '\n',
+  return: '\r',
+  tab: '\t',
+  space: ' ',
+  escape: '\x1b',
+  esc: '\x1b',
+  backspace: '\x7f',
+  delete: '\x1b[3~',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  right: '\x1b[C',
+  left: '\x1b[D',
+  home: '\x1b[H',
+  end: '\x1b[F',
+  pageup: '\x1b[5~',
+  pagedown: '\x1b[6~'
+};
+
+export interface ProcessInput {
+  text?: string;
+  newline?: boolean;   // append a newline after text
+  bytes?: string;      // base64-encoded raw bytes
+  keys?: string[];     // named keys, e.g. Enter, Up, Ctrl-C
+}
+
+export function resolveKey(name: string): string {
+  const normalized = name.trim().toLowerCase();
+  const ctrl = /^(?:ctrl|control|c)[-+]([a-z@[\\\]^_])$/.exec(normalized);
+  if (ctrl) {
+    return String.fromCharCode(ctrl[1].toUpperCase().charCodeAt(0) - 64);
+  }
+  const key = NAMED_KEYS[normalized];
+  if (key === undefined) {
+    throw new Error(`Unknown key: ${name}. Use one of ${Object.keys(NAMED_KEYS).join(', ')} or Ctrl-<letter>`);
+  }
+  return key;
+}
+
+// Returns the bytes to write and a readable transcript line for the logs
+export function encodeInput(input: ProcessInput): { data: Buffer; echo: string } {
+  const parts: Buffer[] = [];
+  const echo: string[] = [];
+
+  if (input.text !== undefined) {
+    const text = input.newline ? `${input.text}\n` : input.text;
+    parts.push(Buffer.from(text, 'utf8'));
+    echo.push(input.text);
+  }
+  if (input.bytes) {
+    const raw = Buffer.from(input.bytes, 'base64');
+    parts.push(raw);
+    echo.push(`<${raw.length} bytes>`);
+  }
+  for (const key of input.keys || []) {
+    parts.push(Buffer.from(resolveKey(key), 'utf8'));
+    echo.push(`<${key}>`);
+  }
+
+  if (parts.length === 0) {
+    throw new Error('No input given: provide text, bytes or keys');
+  }
+
+  return { data: Buffer.concat(parts), echo: echo.join(' ') };
+}
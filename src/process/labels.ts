@@ -0,0 +1,67 @@
+// Key/value labels on processes and the selectors that address them, e.g. "tier=backend,project!=legacy"
+import { ProcessInfo } from '../types/process.js';
+
+const MAX_LABEL_LENGTH = 63;
+const LABEL_KEY = /^[A-Za-z0-9]([A-Za-z0-9._/-]*[A-Za-z0-9])?$/;
+const LABEL_VALUE = /^([A-Za-z0-9]([A-Za-z0-9._-]*[A-Za-z0-9])?)?$/;
+
+export type SelectorOperator = '=' | '!=' | 'exists' | '!exists';
+
+export interface LabelRequirement {
+  key: string;
+  operator: SelectorOperator;
+  value?: string;
+}
+
+export function validateLabels(labels: Record<string, string>): void {
+  for (const [key, value] of Object.entries(labels)) {
+    if (key.length > MAX_LABEL_LENGTH || !LABEL_KEY.test(key)) {
+      throw new Error(`Invalid label key "${key}": use letters, digits, '.', '_', '-' or '/' (max ${MAX_LABEL_LENGTH} chars)`);
+    }
+    if (value.length > MAX_LABEL_LENGTH || !LABEL_VALUE.test(value)) {
+      throw new Error(`Invalid value for label "${key}": use letters, digits, '.', '_' or '-' (max ${MAX_LABEL_LENGTH} chars)`);
+    }
+  }
+}
+
+// Comma-separated requirements, all of which must hold: key=value, key==value, key!=value, key (present), !key (absent)
+export function parseSelector(selector: string): LabelRequirement[] {
+  const requirements: LabelRequirement[] = [];
+  for (const raw of selector.split(',')) {
+    const term = raw.trim();
+    if (!term) continue;
+
+    const match = /^(!?)\s*([^=!\s]+)\s*(?:(==|=|!=)\s*(\S*))?$/.exec(term);
+    if (!match || (match[1] && match[3])) {
+      throw new Error(`Invalid selector term "${term}" (expected key=value, key!=value, key or !key)`);
+    }
+    const [, negated, key, operator, value] = match;
+    if (!LABEL_KEY.test(key)) throw new Error(`Invalid label key "${key}" in selector`);
+
+    if (!operator) {
+      requirements.push({ key, operator: negated ? '!exists' : 'exists' });
+    } else {
+      requirements.push({ key, operator: operator === '!=' ? '!=' : '=', value });
+    }
+  }
+
+  if (requirements.length === 0) throw new Error('Selector is empty');
+  return requirements;
+}
+
+export function matchesSelector(labels: Record<string, string> | undefined, requirements: LabelRequirement[]): boolean {
+  return requirements.every(({ key, operator, value }) => {
+    const actual = labels?.[key];
+    switch (operator) {
+      case '=': return actual === value;
+      case '!=': return actual !== value; // like Kubernetes, a missing label satisfies !=
+      case 'exists': return actual !== undefined;
+      case '!exists': return actual === undefined;
+    }
+  });
+}
+
+export function selectProcesses(processes: ProcessInfo[], selector: string): ProcessInfo[] {
+  const requirements = parseSelector(selector);
+  return processes.filter(info => matchesSelector(info.labels, requirements));
+}
@@ -1,13 +1,44 @@
-import { ChildProcess, spawn } from 'child_process';
+import { ChildProcess, spawn, SpawnOptions, StdioOptions } from 'child_process';
 import { nanoid } from 'nanoid';
+import fs from 'node:fs';
+import path from 'node:path';
 import winston from 'winston';
 import { DatabaseManager } from '../database/manager.js';
-import { loadEnvFiles } from '../utils/env.js';
+import { envFilePath, envFilesFor, explicitEnv, resolveEnv } from '../utils/env.js';
 import { ConfigManager } from '../config/manager.js';
 import { LogManager } from '../logs/manager.js';
-import { ProcessConfig, ProcessInfo, ProcessStatus, HealthStatus, LogType, LogLevel } from '../types/process.js';
+import { ProcessConfig, ProcessInfo, ProcessStatus, HealthStatus, LogType, LogLevel, StopResult, StopReason, SignalScope, DeleteResult, TaskResult, TaskStatus, ProcessRun, HookName, ProcessHook, CrashReport } from '../types/process.js';
+import { ProcessExit, resolveRestartPolicy, shouldRestart, computeBackoffDelay } from './restart.js';
+import { ProcessRow, processInfoFromRow, definitionParams, configFromInfo, mergeConfig } from './definition.js';
+import { CLOCK_TICKS_PER_SECOND, isPidAlive, isSameProcess, readCpuTicks, readStartTicks, readProcessGroup, listDescendants, listProcessGroup } from './procfs.js';
+import { FileTailer } from './tail.js';
+import { MAX_URLS, findListeningPorts, isPortListening, parseUrls } from './ports.js';
+import { matchesSelector, parseSelector, validateLabels } from './labels.js';
+import { DEFAULT_HOOK_TIMEOUT_MS, LineSplitter, hookFailurePolicy, validateHooks } from './hooks.js';
+import { ProcessInput, encodeInput } from './input.js';
+import { FORCE_STOP_PLAN, KILL_WAIT_MS, isValidSignal, resolveStopPlan } from './stop.js';
+import { assertShellEnv, shellCommands, splitArgs } from './shell.js';
+import { FileWatcher, describeChanges, validateWatch } from './watch.js';
+import { aggregateStatus, combineStops, parseReplicaId, replicaConfig, replicaId, validateReplicas } from './replicas.js';
+import {
+  DEFAULT_READINESS_INTERVAL_MS,
+  DEFAULT_READINESS_TIMEOUT_MS,
+  describeReadiness,
+  probeHttp,
+  probePort,
+  readinessUrl,
+  validateReadiness
+} from './readiness.js';
+import { ProcessRunRow, RunHistoryFilter, configHash, runFromRow } from './runs.js';
+import { CRASH_METRIC_SAMPLES, CrashReportRow, OutputHistory, crashReportFromRow, explainExit, summarizeMetrics } from './crash.js';
+import { DEFAULT_TASK_TIMEOUT_MS, MAX_TASK_RECORDS, OUTPUT_DRAIN_MS, OutputCapture, TaskOptions } from './task.js';
+import { validateSchedule } from '../scheduler/cron.js';
+import { formatDuration } from '../utils/duration.js';
 import { EventEmitter } from 'events';
 
+// How often maxRuntimeMs and idleTimeoutMs are checked
+const TIMEOUT_CHECK_INTERVAL_MS = 5000;
+
 export class ProcessManager extends EventEmitter {
   private processes: Map<string, ManagedProcess>;
   private database: DatabaseManager;
@@ -15,6 +46,13 @@ export class ProcessManager extends EventEmitter {
   private config: ConfigManager;
   private logManager: LogManager;
   private healthCheckIntervals: Map<string, NodeJS.Timeout>;
+  private restartTimers: Map<string, NodeJS.Timeout>;
+  private restartAttempts: Map<string, number>;
+  private readinessWatchers: Map<string, () => void>;
+  private fileWatchers: Map<string, FileWatcher>;
+  private timeoutCheck: NodeJS.Timeout;
+  private timeoutStops: Set<string>;                              // stops for maxRuntimeMs/idleTimeoutMs in progress
+  private cpuSamples: Map<string, { ticks: number; at: number }>; // last CPU reading of processes with idleTimeoutMs
 
   constructor(database: DatabaseManager, logger: winston.Logger, config: ConfigManager, logManager: LogManager) {
     super();
@@ -24,68 +62,375 @@ export class ProcessManager extends EventEmitter {
     this.config = config;
     this.logManager = logManager;
     this.healthCheckIntervals = new Map();
+    this.restartTimers = new Map();
+    this.restartAttempts = new Map();
+    this.readinessWatchers = new Map();
+    this.fileWatchers = new Map();
+    this.timeoutStops = new Set();
+    this.cpuSamples = new Map();
 
     this.loadExistingProcesses();
+    this.timeoutCheck = setInterval(() => this.enforceTimeouts(), TIMEOUT_CHECK_INTERVAL_MS);
+    this.timeoutCheck.unref();
   }
 
+  // Rebuild process definitions persisted by a previous server run
   private loadExistingProcesses(): void {
     try {
-      const dbProcesses = this.database.getDb()
-        .prepare('SELECT * FROM processes WHERE status IN (?, ?)')
-        .all(ProcessStatus.RUNNING, ProcessStatus.STARTING) as any[];
+      const rows = this.database.getDb()
+        .prepare('SELECT * FROM processes WHERE deleted_at IS NULL ORDER BY created_at')
+        .all() as ProcessRow[];
+
+      for (const row of rows) {
+        const info = processInfoFromRow(row);
+
+        // Older versions stored the env merged from files; keep only the explicit overrides
+        const env = explicitEnv(info);
+        if (Object.keys(env).length !== Object.keys(info.env || {}).length) {
+          info.env = env;
+          this.database.getStatement('updateProcessDefinition').run(definitionParams(info));
+        }
 
-      for (const proc of dbProcesses) {
-        // Mark as stopped since we're starting fresh
-        this.database.getStatement('updateProcessStatus').run({
-          id: proc.id,
-          status: ProcessStatus.STOPPED,
-          pid: null,
-          started_at: null
-        });
+        if (info.status === ProcessStatus.RUNNING || info.status === ProcessStatus.STARTING || info.status === ProcessStatus.PAUSED) {
+          // Detached processes may have outlived the previous server; re-adopt them if the PID is still theirs
+          if (info.detached && row.pid && isSameProcess(row.pid, row.start_ticks)) {
+            info.logFiles = this.logFilesFor(info.id);
+            const managedProcess = this.createManagedProcess(info);
+            this.processes.set(info.id, managedProcess);
+            managedProcess.adopt(row.pid, row.start_ticks ?? null);
+            this.setupHealthCheck(info.id);
+            this.setupWatch(info.id);
+            this.logger.info(`Adopted running process ${info.id} (pid ${row.pid})`);
+            continue;
+          }
+
+          // Mark as stopped since we're starting fresh; the previous server never saw the run end
+          this.database.getStatement('updateProcessStatus').run({
+            id: info.id,
+            status: ProcessStatus.STOPPED,
+            pid: null,
+            started_at: null
+          });
+          this.database.getStatement('closeOpenRuns').run({ process_id: info.id, stop_reason: 'shutdown', stopped_at: Date.now() });
+          info.status = ProcessStatus.STOPPED;
+          info.pid = undefined;
+        }
+
+        this.processes.set(info.id, this.createManagedProcess(info));
+      }
+
+      if (rows.length > 0) {
+        this.logger.info(`Loaded ${rows.length} process definitions`);
       }
     } catch (error) {
       this.logger.error('Failed to load existing processes:', error);
     }
   }
 
+  // Start every persisted process that opted into startOnBoot
+  async startBootProcesses(): Promise<ProcessInfo[]> {
+    const started: ProcessInfo[] = [];
+
+    for (const managedProcess of this.processes.values()) {
+      const info = managedProcess.getInfo();
+      if (!info.startOnBoot || this.isRunning(managedProcess)) continue;
+
+      try {
+        started.push(await this.startProcess(configFromInfo(info)));
+      } catch (error) {
+        this.logger.error(`Failed to start process ${info.id} on boot:`, error);
+      }
+    }
+
+    return started;
+  }
+
+  private logFilesFor(processId: string): { stdout: string; stderr: string } {
+    const dir = this.config.get('PM_PROCESS_LOG_DIR');
+    return {
+      stdout: path.join(dir, `${processId}.stdout.log`),
+      stderr: path.join(dir, `${processId}.stderr.log`)
+    };
+  }
+
+  private createManagedProcess(info: ProcessInfo): ManagedProcess {
+    const managedProcess = new ManagedProcess(info, this.database, this.logger, this.logManager, this.config.get('PM_SHELL'));
+    managedProcess.on('exit', (exit: ProcessExit) => this.handleProcessExit(info.id, exit));
+    managedProcess.on('crashReport', (report: CrashReport) => this.emit('processCrashReport', info.id, report));
+    return managedProcess;
+  }
+
+  // Validate and persist a process definition without starting it, e.g. for scheduled jobs
+  registerProcess(config: ProcessConfig): ProcessInfo {
+    return this.defineProcess(config, ProcessStatus.STOPPED).getInfo();
+  }
+
   async startProcess(config: ProcessConfig): Promise<ProcessInfo> {
-    // Resolve tool name via allowlist if needed, then validate
-    let resolvedCommand = config.command;
+    // A process with instances is never spawned itself, only its copies are
+    if (config.instances !== undefined) {
+      return this.startReplicas(this.defineProcess(config, ProcessStatus.STOPPED));
+    }
+    return this.launch(this.defineProcess(config, ProcessStatus.STARTING));
+  }
+
+  // All copies start or none stay running, like a single process that failed to start
+  private async startReplicas(owner: ManagedProcess): Promise<ProcessInfo> {
+    const info = owner.getInfo();
+    await this.removeReplicas(info.id, info.instances!);
+
+    const started: string[] = [];
+    try {
+      for (let index = 0; index < info.instances!; index++) {
+        started.push((await this.startProcess(replicaConfig(info, index))).id);
+      }
+    } catch (error) {
+      await Promise.all(started.map(id => this.stopProcess(id).catch(() => undefined)));
+      throw error;
+    }
+    return this.describe(owner);
+  }
+
+  // Copies past `keep` are stopped and purged, so a later scale up can reuse their ids
+  private async removeReplicas(processId: string, keep: number): Promise<void> {
+    for (const replica of this.replicasOf(processId).reverse()) {
+      const id = replica.getInfo().id;
+      if (parseReplicaId(id)!.index >= keep) await this.deleteProcess(id, { force: true, purge: true });
+    }
+  }
+
+  // Change how many copies of a process with instances run; new copies start right away if the process is running
+  async scaleProcess(processId: string, instances: number): Promise<ProcessInfo> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    const info = managedProcess.getInfo();
+    if (info.instances === undefined) {
+      throw new Error(`Process ${processId} doesn't run instances. Restart it with newConfig.instances to run copies of it`);
+    }
+    validateReplicas({ ...configFromInfo(info), instances });
+
+    const running = this.isRunning(managedProcess);
+    const previous = info.instances;
+    const updated: ProcessInfo = { ...info, instances };
+    this.database.getStatement('updateProcessDefinition').run(definitionParams(updated));
+    managedProcess.updateInfo(updated);
+
+    await this.removeReplicas(processId, instances);
+    if (running) {
+      for (let index = previous; index < instances; index++) {
+        await this.startProcess(replicaConfig(updated, index));
+      }
+    }
+    this.logSystem(processId, `Scaled from ${previous} to ${instances} instances`, LogLevel.INFO);
+    return this.describe(managedProcess);
+  }
+
+  // Run a command to completion and return its exit status with the head and tail of its output
+  async runTask(config: ProcessConfig, options: TaskOptions = {}): Promise<TaskResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+    const existing = config.id ? this.processes.get(config.id) : undefined;
+    if (existing && !existing.getInfo().task) {
+      throw new Error(`Process ${config.id} (${existing.getInfo().name}) was not created by run_task; run the task under another name`);
+    }
+    if (!existing) await this.pruneTasks();
+    const managedProcess = this.defineProcess(
+      { ...config, task: true, autoRestart: false, restartPolicy: undefined, detached: false, interactive: false, readiness: undefined },
+      ProcessStatus.STARTING
+    );
+    const processId = managedProcess.getInfo().id;
+    const stdout = new OutputCapture(options.headLines, options.tailLines);
+    const stderr = new OutputCapture(options.headLines, options.tailLines);
+    const onOutput = (type: LogType, message: string) => {
+      (type === LogType.STDERR ? stderr : stdout).push(message);
+    };
+    // A command that can't be spawned (e.g. ENOENT) reports an error and never exits
+    const exited = new Promise<ProcessExit>((resolve, reject) => {
+      managedProcess.once('exit', resolve);
+      managedProcess.once('failed', reject);
+    });
+    exited.catch(() => {}); // only awaited while the task is attached
+
+    managedProcess.on('output', onOutput);
+    const startedAt = Date.now();
+    try {
+      await this.launch(managedProcess);
+
+      let timer: NodeJS.Timeout | undefined;
+      const timedOut = new Promise<null>(resolve => { timer = setTimeout(() => resolve(null), timeoutMs); });
+      let exit = await Promise.race([exited, timedOut]);
+      clearTimeout(timer);
+
+      let status: TaskStatus = 'completed';
+      if (!exit) {
+        if (options.detach) {
+          status = 'detached';
+          this.logSystem(processId, `Task still running after ${timeoutMs}ms, detached`, LogLevel.WARN);
+        } else {
+          status = 'timed_out';
+          this.logSystem(processId, `Task timed out after ${timeoutMs}ms`, LogLevel.ERROR);
+          await this.stopProcess(processId, false, 'timeout');
+          exit = await exited;
+        }
+      }
+      if (exit) await managedProcess.waitForOutput(OUTPUT_DRAIN_MS);
+
+      return {
+        processId,
+        status,
+        exitCode: exit?.code ?? null,
+        signal: exit?.signal ?? null,
+        durationMs: Date.now() - startedAt,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+        stdoutLines: stdout.lineCount,
+        stderrLines: stderr.lineCount,
+        truncated: stdout.truncated || stderr.truncated
+      };
+    } finally {
+      managedProcess.off('output', onOutput);
+    }
+  }
+
+  // Make room for one more task record by purging the finished ones that ran longest ago
+  private async pruneTasks(): Promise<void> {
+    const finished = [...this.processes.values()]
+      .filter(managedProcess => managedProcess.getInfo().task && !this.isRunning(managedProcess))
+      .map(managedProcess => managedProcess.getInfo())
+      .sort((a, b) => (a.stoppedAt ?? a.createdAt) - (b.stoppedAt ?? b.createdAt));
+    for (const info of finished.slice(0, Math.max(0, finished.length - MAX_TASK_RECORDS + 1))) {
+      await this.deleteProcess(info.id, { purge: true });
+    }
+  }
+
+  private async launch(managedProcess: ManagedProcess): Promise<ProcessInfo> {
+    const info = managedProcess.getInfo();
+    const processId = info.id;
+
+    // Start the actual process
+    try {
+      this.warnIfPortTaken(info);
+      await this.runHook(managedProcess, 'preStart');
+      await managedProcess.start();
+      this.watchReadiness(processId);
+      this.runPostStart(processId);
+      this.setupWatch(processId);
+
+      // Setup health checks if configured
+      if (info.healthCheckCommand && info.healthCheckInterval) {
+        this.setupHealthCheck(processId);
+      }
+
+      this.emit('processStarted', managedProcess.getInfo());
+      return managedProcess.getInfo();
+    } catch (error) {
+      managedProcess.status = ProcessStatus.FAILED;
+      this.database.getStatement('updateProcessStatus').run({
+        id: processId,
+        status: ProcessStatus.FAILED,
+        pid: null,
+        started_at: null
+      });
+      throw error;
+    }
+  }
+
+  // Resolve tool name via allowlist if needed, then validate
+  private resolveCommand(command: string, cwd?: string): string {
+    let resolvedCommand = command;
     if (!resolvedCommand.includes('/') && !resolvedCommand.includes('\\')) {
       const viaTool = this.config.resolveAllowedTool(resolvedCommand);
       if (viaTool) resolvedCommand = viaTool;
+    } else if (cwd && !path.isAbsolute(resolvedCommand)) {
+      resolvedCommand = path.resolve(cwd, resolvedCommand);
     }
     if (this.config.isDangerousCommand(resolvedCommand)) {
-      throw new Error(`Dangerous command blocked: ${config.command}. To override, remove it from PM_DANGEROUS_COMMANDS_DENYLIST (expert only).`);
+      throw new Error(`Dangerous command blocked: ${command}. To override, remove it from PM_DANGEROUS_COMMANDS_DENYLIST (expert only).`);
     }
     if (!this.config.isCommandAllowed(resolvedCommand)) {
-      throw new Error(`Command not allowed: ${config.command}. To grant permission, update PM_ALLOWED_COMMANDS (e.g., 'pwd,/usr/bin') and optionally PM_ALLOWED_TOOL_NAMES (e.g., 'pnpm,node'), then restart the server.`);
+      throw new Error(`Command not allowed: ${command}. To grant permission, update PM_ALLOWED_COMMANDS (e.g., 'pwd,/usr/bin') and optionally PM_ALLOWED_TOOL_NAMES (e.g., 'pnpm,node'), then restart the server.`);
+    }
+    return resolvedCommand;
+  }
+
+  // Shell mode runs the script with PM_SHELL, so the shell and every command the script invokes must be allowed
+  private validateShellScript(script: string, cwd: string): void {
+    const shell = this.config.get('PM_SHELL');
+    if (this.config.isDangerousCommand(shell) || !this.config.isCommandAllowed(shell)) {
+      throw new Error(`Shell not allowed: ${shell}. To grant permission, add its directory to PM_ALLOWED_COMMANDS (e.g., '/bin') or point PM_SHELL at an allowed shell, then restart the server.`);
+    }
+    for (const command of shellCommands(script)) {
+      this.resolveCommand(command, cwd);
     }
+  }
 
-    // Check max processes limit
-    if (this.processes.size >= this.config.get('PM_MAX_PROCESSES')) {
-      throw new Error(`Maximum process limit reached: ${this.config.get('PM_MAX_PROCESSES')}`);
+  // Names are unique per working directory, so every tool can address a process by name and cwd
+  private assertUniqueName(name: string, cwd: string, processId: string): void {
+    for (const other of this.processes.values()) {
+      const info = other.getInfo();
+      const otherCwd = !info.cwd || info.cwd === 'pwd' ? process.cwd() : path.resolve(info.cwd);
+      if (info.id !== processId && info.name === name && otherCwd === cwd) {
+        throw new Error(`A process named "${name}" already exists in ${cwd} (${info.id}); pick another name or update that process`);
+      }
+    }
+  }
+
+  private defineProcess(config: ProcessConfig, status: ProcessStatus): ManagedProcess {
+    // In shell mode the command is a script, checked command by command once the cwd is known
+    const resolvedCommand = config.shell ? config.command : this.resolveCommand(config.command);
+    if (config.shell && config.args?.length) {
+      throw new Error(`Process ${config.name} runs in shell mode; put the whole script in command instead of passing args`);
     }
 
     const processId = config.id || nanoid();
 
+    // Check max processes limit; redefining an existing process doesn't add one
+    if (!this.processes.has(processId) && this.processes.size >= this.config.get('PM_MAX_PROCESSES')) {
+      throw new Error(`Maximum process limit reached: ${this.config.get('PM_MAX_PROCESSES')}`);
+    }
+    const detached = config.detached ?? (this.config.get('PM_SUPERVISION_MODE') === 'detached');
+    const logFiles = detached ? this.logFilesFor(processId) : undefined;
+    if (detached && config.interactive) {
+      // The stdin pipe would die with the server, so a detached process can't stay interactive
+      throw new Error(`Process ${config.name} cannot be both detached and interactive`);
+    }
+    resolveStopPlan(config); // rejects unknown signal names before anything is persisted
+    if (config.readiness) validateReadiness(config.readiness);
+    if (config.schedule) validateSchedule(config.schedule);
+    if (config.labels) validateLabels(config.labels);
+    validateReplicas(config);
+    for (const key of ['maxRuntimeMs', 'idleTimeoutMs'] as const) {
+      const value = config[key];
+      if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+        throw new Error(`${key} must be a non-negative number of milliseconds`);
+      }
+    }
     let managedProcess: ManagedProcess;
 
-    // Merge env from files/profile
+    // Only the env sources are persisted; files are resolved again at spawn time so their secrets stay out of SQLite
     const baseCwd = config.cwd === 'pwd' ? process.cwd() : (config.cwd || process.cwd());
-    let mergedEnv: Record<string,string> = { ...(config.env || {}) };
-    const profile = (config.envProfile || '').trim();
-    const filesFromProfile = profile ? [`.env`, `.env.local`, `.env.${profile}`, `.env.${profile}.local`] : [];
-    const envFiles = [...(config.envFiles || []), ...filesFromProfile];
-    if (envFiles.length) {
-      const loaded = loadEnvFiles(baseCwd, envFiles);
-      mergedEnv = { ...loaded, ...mergedEnv };
+    const env: Record<string,string> = { ...(config.env || {}) };
+    this.config.assertPathAllowed(baseCwd, 'Working directory');
+    for (const file of envFilesFor(config)) {
+      this.config.assertPathAllowed(envFilePath(path.resolve(baseCwd), file), 'Env file');
+    }
+    if (config.shell) {
+      this.validateShellScript(config.command, path.resolve(baseCwd));
+      assertShellEnv(resolveEnv({ cwd: baseCwd, env, envFiles: config.envFiles, envProfile: config.envProfile }));
+    }
+    if (config.watch) validateWatch(config.watch, path.resolve(baseCwd));
+    this.assertUniqueName(config.name, path.resolve(baseCwd), processId);
+    if (config.hooks) {
+      validateHooks(config.hooks);
+      for (const hook of Object.values(config.hooks)) {
+        if (hook) this.resolveAuxCommand(hook.command, 'Hook', path.resolve(baseCwd));
+      }
     }
 
     // Check if process already exists
     if (this.processes.has(processId)) {
       managedProcess = this.processes.get(processId)!;
-      if (managedProcess.status === ProcessStatus.RUNNING) {
+      if (managedProcess.status === ProcessStatus.RUNNING || this.isRunning(managedProcess)) {
         throw new Error(`Process ${processId} is already running`);
       }
 
@@ -96,22 +441,52 @@ export class ProcessManager extends EventEmitter {
         name: config.name,
         command: resolvedCommand,
         args: config.args || [],
-        env: mergedEnv,
+        shell: config.shell || false,
+        env,
+        envFiles: config.envFiles,
+        envProfile: config.envProfile,
         cwd: baseCwd,
         autoRestart: config.autoRestart || false,
+        restartPolicy: config.restartPolicy,
+        startOnBoot: config.startOnBoot ?? existingInfo.startOnBoot,
+        detached,
+        interactive: config.interactive || false,
+        task: config.task,
+        stopSignal: config.stopSignal,
+        stopTimeoutMs: config.stopTimeoutMs,
+        stopEscalation: config.stopEscalation,
+        readiness: config.readiness,
+        resourceLimits: config.resourceLimits,
+        schedule: config.schedule,
+        hooks: config.hooks,
+        maxRuntimeMs: config.maxRuntimeMs,
+        idleTimeoutMs: config.idleTimeoutMs,
+        watch: config.watch,
+        labels: config.labels,
+        instances: config.instances,
+        basePort: config.basePort,
+        logFiles,
+        adopted: false,
         healthCheckCommand: config.healthCheckCommand,
         healthCheckInterval: config.healthCheckInterval,
-        groupId: config.groupId,
-        status: ProcessStatus.STARTING,
-        restartCount: existingInfo.restartCount
+        groupId: config.groupId ?? existingInfo.groupId,
+        status,
+        restartCount: existingInfo.restartCount,
+        nextRestartAt: undefined
       };
 
+      // A manual start supersedes any pending crash restart
+      this.cancelPendingRestart(processId);
+
       // Update database
-      this.database.getStatement('updateProcessStatus').run({
-        id: processId,
-        status: ProcessStatus.STARTING,
-        pid: null,
-        started_at: null
+      this.database.transaction(() => {
+        this.database.getStatement('updateProcessDefinition').run(definitionParams(updatedInfo));
+        this.database.getStatement('updateProcessStatus').run({
+          id: processId,
+          status,
+          pid: null,
+          started_at: null
+        });
       });
 
       // Update managed process info
@@ -123,13 +498,35 @@ export class ProcessManager extends EventEmitter {
         name: config.name,
         command: resolvedCommand,
         args: config.args || [],
-        env: mergedEnv,
+        shell: config.shell || false,
+        env,
+        envFiles: config.envFiles,
+        envProfile: config.envProfile,
         cwd: baseCwd,
         autoRestart: config.autoRestart || false,
+        restartPolicy: config.restartPolicy,
+        startOnBoot: config.startOnBoot || false,
+        detached,
+        interactive: config.interactive || false,
+        task: config.task,
+        stopSignal: config.stopSignal,
+        stopTimeoutMs: config.stopTimeoutMs,
+        stopEscalation: config.stopEscalation,
+        readiness: config.readiness,
+        resourceLimits: config.resourceLimits,
+        schedule: config.schedule,
+        hooks: config.hooks,
+        maxRuntimeMs: config.maxRuntimeMs,
+        idleTimeoutMs: config.idleTimeoutMs,
+        watch: config.watch,
+        labels: config.labels,
+        instances: config.instances,
+        basePort: config.basePort,
+        logFiles,
         healthCheckCommand: config.healthCheckCommand,
         healthCheckInterval: config.healthCheckInterval,
         groupId: config.groupId,
-        status: ProcessStatus.STARTING,
+        status,
         createdAt: Date.now(),
         restartCount: 0,
         healthStatus: HealthStatus.UNKNOWN
@@ -137,7 +534,7 @@ export class ProcessManager extends EventEmitter {
 
       // Store in database
       this.database.transaction(() => {
-        this.database.getStatement('insertProcess').run({
+        const inserted = this.database.getStatement('insertProcess').run({
           id: processInfo.id,
           name: processInfo.name,
           command: processInfo.command,
@@ -147,54 +544,129 @@ export class ProcessManager extends EventEmitter {
           status: processInfo.status,
           created_at: processInfo.createdAt
         });
+        if (inserted.changes === 0) throw new Error(`Process ${processId} already exists`);
+        this.database.getStatement('updateProcessDefinition').run(definitionParams(processInfo));
       });
 
       // Create managed process
-      managedProcess = new ManagedProcess(processInfo, this.database, this.logger, this.logManager);
+      managedProcess = this.createManagedProcess(processInfo);
       this.processes.set(processId, managedProcess);
     }
 
-    // Start the actual process
-    try {
-      await managedProcess.start();
+    this.emit('processDefined', managedProcess.getInfo());
+    return managedProcess;
+  }
 
-      // Setup health checks if configured
-      if (config.healthCheckCommand && config.healthCheckInterval) {
-        this.setupHealthCheck(processId);
-      }
+  async stopProcess(processId: string, force: boolean = false, reason: StopReason = 'user'): Promise<StopResult> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
 
-      this.emit('processStarted', managedProcess.getInfo());
-      return managedProcess.getInfo();
-    } catch (error) {
-      managedProcess.status = ProcessStatus.FAILED;
-      this.database.getStatement('updateProcessStatus').run({
-        id: processId,
-        status: ProcessStatus.FAILED,
-        pid: null,
-        started_at: null
-      });
-      throw error;
+    const replicas = this.replicasOf(processId);
+    if (replicas.length > 0) {
+      const results = await Promise.all(replicas.map(replica => this.stopProcess(replica.getInfo().id, force, reason)));
+      this.emit('processStopped', processId);
+      return combineStops(results);
+    }
+
+    // An explicit stop also cancels any pending crash restart
+    this.cancelPendingRestart(processId);
+    this.cancelReadiness(processId);
+
+    // Clear health check interval
+    const healthInterval = this.healthCheckIntervals.get(processId);
+    if (healthInterval) {
+      clearInterval(healthInterval);
+      this.healthCheckIntervals.delete(processId);
     }
+    // A restart for file changes keeps the watcher, and with it the rate limit
+    if (reason !== 'watch') this.stopWatching(processId);
+
+    const result = await this.stopWithHooks(managedProcess, force, reason);
+    this.emit('processStopped', processId);
+    return result;
+  }
+
+  // preStop only runs before graceful stops; postStop runs whenever a live process was stopped
+  private async stopWithHooks(managedProcess: ManagedProcess, force: boolean, reason: StopReason): Promise<StopResult> {
+    const alive = managedProcess.isAlive;
+    if (alive && !force) await this.runHook(managedProcess, 'preStop');
+    const result = await managedProcess.stop(force, reason);
+    if (alive) await this.runHook(managedProcess, 'postStop');
+    return result;
   }
 
-  async stopProcess(processId: string, force: boolean = false): Promise<void> {
+  // Edit the persisted definition of a process that isn't running; takes effect on its next start
+  updateProcess(processId: string, changes: Partial<ProcessConfig>): ProcessInfo {
     const managedProcess = this.processes.get(processId);
     if (!managedProcess) {
       throw new Error(`Process ${processId} not found`);
     }
+    if (this.isRunning(managedProcess)) {
+      throw new Error(`Process ${processId} is running. Stop it first, or use restart_process with newConfig to apply changes while restarting`);
+    }
 
-    // Clear health check interval
+    const updated = mergeConfig(configFromInfo(managedProcess.getInfo()), changes);
+    updated.id = processId;
+
+    return this.defineProcess(updated, managedProcess.status).getInfo();
+  }
+
+  // Unregister a process. Its logs, metrics, errors, run history and crash reports are kept unless purged.
+  async deleteProcess(processId: string, options: { force?: boolean; purge?: boolean } = {}): Promise<DeleteResult> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+
+    const info = managedProcess.getInfo();
+    let stop: StopResult | undefined;
+    if (this.isRunning(managedProcess)) {
+      if (!options.force) {
+        throw new Error(`Process ${processId} is running. Stop it first or pass force: true`);
+      }
+      stop = await this.stopProcess(processId);
+      if (stop.survivors.length > 0) {
+        throw new Error(`Process ${processId} could not be stopped: ${stop.survivors.length} process(es) survived`);
+      }
+    }
+
+    for (const replica of this.replicasOf(processId)) {
+      await this.deleteProcess(replica.getInfo().id, { purge: options.purge });
+    }
+
+    this.cancelPendingRestart(processId);
+    this.cancelReadiness(processId);
     const healthInterval = this.healthCheckIntervals.get(processId);
     if (healthInterval) {
       clearInterval(healthInterval);
       this.healthCheckIntervals.delete(processId);
     }
+    this.stopWatching(processId);
+    managedProcess.release();
+    managedProcess.removeAllListeners();
+
+    if (options.purge) {
+      // Logs, metrics, errors, runs, crash reports and schedules go with the row (ON DELETE CASCADE)
+      this.database.getStatement('deleteProcess').run(processId);
+      for (const file of info.logFiles ? [info.logFiles.stdout, info.logFiles.stderr] : []) {
+        fs.rmSync(file, { force: true });
+      }
+    } else {
+      this.database.getStatement('markProcessDeleted').run({ id: processId, deleted_at: Date.now() });
+    }
 
-    await managedProcess.stop(force);
-    this.emit('processStopped', processId);
+    this.processes.delete(processId);
+    this.restartAttempts.delete(processId);
+    this.cpuSamples.delete(processId);
+    this.logger.info(`Deleted process ${info.name} (${processId})${options.purge ? ' and purged its data' : ''}`);
+    this.emit('processDeleted', processId);
+
+    return { processId, name: info.name, purged: !!options.purge, stop };
   }
 
-  async restartProcess(processId: string, newConfig?: Partial<ProcessConfig>): Promise<ProcessInfo> {
+  async restartProcess(processId: string, newConfig?: Partial<ProcessConfig>, reason: StopReason = 'user'): Promise<ProcessInfo> {
     const managedProcess = this.processes.get(processId);
     if (!managedProcess) {
       throw new Error(`Process ${processId} not found`);
@@ -203,21 +675,11 @@ export class ProcessManager extends EventEmitter {
     const currentInfo = managedProcess.getInfo();
 
     // Stop the process
-    await this.stopProcess(processId);
+    await this.stopProcess(processId, false, reason);
 
     // Merge configurations
-    const restartConfig: ProcessConfig = {
-      id: processId,
-      name: newConfig?.name || currentInfo.name,
-      command: newConfig?.command || currentInfo.command,
-      args: newConfig?.args || currentInfo.args,
-      env: newConfig?.env || currentInfo.env,
-      cwd: newConfig?.cwd || currentInfo.cwd,
-      autoRestart: newConfig?.autoRestart ?? currentInfo.autoRestart,
-      healthCheckCommand: newConfig?.healthCheckCommand || currentInfo.healthCheckCommand,
-      healthCheckInterval: newConfig?.healthCheckInterval || currentInfo.healthCheckInterval,
-      groupId: newConfig?.groupId || currentInfo.groupId
-    };
+    const restartConfig = mergeConfig(configFromInfo(currentInfo), newConfig || {});
+    restartConfig.id = processId;
 
     // Increment restart count
     managedProcess.restartCount++;
@@ -226,25 +688,580 @@ export class ProcessManager extends EventEmitter {
     return this.startProcess(restartConfig);
   }
 
-  async killProcess(processId: string): Promise<void> {
-    await this.stopProcess(processId, true);
+  async killProcess(processId: string, reason: StopReason = 'user'): Promise<StopResult> {
+    return this.stopProcess(processId, true, reason);
+  }
+
+  // Deliver a signal without stopping the process, e.g. SIGHUP to reload its config; returns the PIDs signalled
+  signalProcess(processId: string, signal: string, scope: SignalScope = 'group'): number[] {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    this.rejectReplicated(managedProcess);
+    if (!isValidSignal(signal)) {
+      throw new Error(`Invalid signal: ${signal}. Use a signal name such as SIGHUP, SIGUSR1 or SIGQUIT`);
+    }
+    // These would put the process out of step with its paused status
+    if (signal === 'SIGSTOP' || signal === 'SIGTSTP' || signal === 'SIGCONT') {
+      throw new Error(`Use pause_process and resume_process instead of sending ${signal}`);
+    }
+    if (!managedProcess.isAlive) {
+      throw new Error(`Process ${processId} is not running (status: ${managedProcess.status})`);
+    }
+
+    const signalled = managedProcess.sendSignal(signal as NodeJS.Signals, scope);
+    this.logSystem(processId, `Sent ${signal} to ${scope === 'group' ? `process group (${signalled.length} process(es))` : `pid ${signalled[0]}`}`, LogLevel.INFO);
+    return signalled;
+  }
+
+  // Freeze the process group with SIGSTOP; health checks and the watchdog leave it alone until resumed
+  pauseProcess(processId: string): ProcessInfo {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    this.rejectReplicated(managedProcess);
+    if (managedProcess.status !== ProcessStatus.RUNNING || !managedProcess.isAlive) {
+      throw new Error(`Only running processes can be paused (status: ${managedProcess.status})`);
+    }
+
+    managedProcess.pause();
+    this.emit('processPaused', managedProcess.getInfo());
+    return managedProcess.getInfo();
+  }
+
+  resumeProcess(processId: string): ProcessInfo {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    this.rejectReplicated(managedProcess);
+    if (managedProcess.status !== ProcessStatus.PAUSED || !managedProcess.isAlive) {
+      throw new Error(`Process ${processId} is not paused (status: ${managedProcess.status})`);
+    }
+
+    managedProcess.resume();
+    this.emit('processResumed', managedProcess.getInfo());
+    return managedProcess.getInfo();
+  }
+
+  // Server-wide PM_DEFAULT_MAX_RUNTIME_MS/PM_DEFAULT_IDLE_TIMEOUT_MS for processes started through tools without their own setting
+  withDefaultTimeouts(config: ProcessConfig): ProcessConfig {
+    return {
+      ...config,
+      maxRuntimeMs: config.maxRuntimeMs ?? (this.config.get('PM_DEFAULT_MAX_RUNTIME_MS') || undefined),
+      idleTimeoutMs: config.idleTimeoutMs ?? (this.config.get('PM_DEFAULT_IDLE_TIMEOUT_MS') || undefined)
+    };
+  }
+
+  // Stop processes that ran past maxRuntimeMs, or got no output and no more than PM_IDLE_CPU_PERCENT CPU for idleTimeoutMs
+  private enforceTimeouts(): void {
+    const now = Date.now();
+    for (const [processId, managedProcess] of this.processes) {
+      const info = managedProcess.getInfo();
+      if (!managedProcess.isAlive || this.timeoutStops.has(processId)) {
+        this.cpuSamples.delete(processId);
+        continue;
+      }
+
+      if (info.maxRuntimeMs && info.startedAt && now - info.startedAt >= info.maxRuntimeMs) {
+        this.stopForTimeout(processId, 'max_runtime', `Stopping after reaching maxRuntimeMs (${formatDuration(info.maxRuntimeMs)})`);
+        continue;
+      }
+
+      // Starting processes have a readiness timeout instead; paused ones are quiet on purpose
+      if (!info.idleTimeoutMs || info.status !== ProcessStatus.RUNNING) {
+        this.cpuSamples.delete(processId);
+        continue;
+      }
+      if (this.isIdle(managedProcess, info.idleTimeoutMs, now)) {
+        this.stopForTimeout(
+          processId,
+          'idle',
+          `Stopping after ${formatDuration(info.idleTimeoutMs)} without output and with CPU at or below ${this.config.get('PM_IDLE_CPU_PERCENT')}% (idleTimeoutMs)`
+        );
+      }
+    }
+  }
+
+  private isIdle(managedProcess: ManagedProcess, idleTimeoutMs: number, now: number): boolean {
+    const processId = managedProcess.getInfo().id;
+    const ticks = managedProcess.cpuTicks();
+    const previous = this.cpuSamples.get(processId);
+    if (ticks === null) {
+      // Without /proc, CPU use is unknown, so never call the process idle
+      this.cpuSamples.delete(processId);
+      return false;
+    }
+    this.cpuSamples.set(processId, { ticks, at: now });
+    if (!previous || now <= previous.at) return false;
+
+    const cpuPercent = (Math.max(0, ticks - previous.ticks) / CLOCK_TICKS_PER_SECOND) / ((now - previous.at) / 1000) * 100;
+    if (cpuPercent > this.config.get('PM_IDLE_CPU_PERCENT')) managedProcess.markActive(now);
+    return now - managedProcess.lastActivityAt >= idleTimeoutMs;
+  }
+
+  private stopForTimeout(processId: string, reason: StopReason, message: string): void {
+    this.timeoutStops.add(processId);
+    this.cpuSamples.delete(processId);
+    this.logSystem(processId, message, LogLevel.WARN);
+    this.stopProcess(processId, false, reason)
+      .catch(error => this.logger.error(`Failed to stop process ${processId}:`, error))
+      .finally(() => this.timeoutStops.delete(processId));
+  }
+
+  // Write to the stdin of an interactive process; returns the number of bytes written
+  async sendInput(processId: string, input: ProcessInput & { eof?: boolean }): Promise<number> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    this.rejectReplicated(managedProcess);
+
+    const hasData = input.text !== undefined || !!input.bytes || !!input.keys?.length;
+    let written = 0;
+    if (hasData || !input.eof) {
+      const { data, echo } = encodeInput(input);
+      await managedProcess.writeInput(data, echo);
+      written = data.length;
+    }
+    if (input.eof) managedProcess.closeInput();
+    return written;
+  }
+
+  // PM_AUTO_RESTART_ENABLED is the global kill switch for crash and health-check restarts
+  isAutoRestartEnabled(): boolean {
+    return this.config.get('PM_AUTO_RESTART_ENABLED');
+  }
+
+  private handleProcessExit(processId: string, exit: ProcessExit): void {
+    this.cancelReadiness(processId);
+    this.emit('processExited', processId, exit);
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) return;
+
+    // Requested stops run postStop in stopWithHooks; this covers processes that exited by themselves
+    if (!exit.requested) {
+      this.runHook(managedProcess, 'postStop').catch(error => {
+        this.logger.error(`Failed to run postStop hook of process ${processId}:`, error);
+      });
+    }
+    if (!this.isAutoRestartEnabled()) return;
+
+    const policy = resolveRestartPolicy(managedProcess.getInfo());
+    if (!shouldRestart(policy, exit)) {
+      this.restartAttempts.delete(processId);
+      return;
+    }
+
+    // A run that stayed up long enough resets the crash counter
+    const previousAttempts = exit.uptimeMs >= policy.minUptimeMs ? 0 : (this.restartAttempts.get(processId) || 0);
+    if (previousAttempts >= policy.maxRetries) {
+      this.enterCrashLoop(managedProcess, previousAttempts, exit);
+      return;
+    }
+
+    const attempt = previousAttempts + 1;
+    const delay = computeBackoffDelay(policy, attempt);
+    this.restartAttempts.set(processId, attempt);
+    managedProcess.nextRestartAt = Date.now() + delay;
+
+    this.logSystem(
+      processId,
+      `Restarting in ${delay}ms (attempt ${attempt}/${policy.maxRetries}, policy ${policy.mode}) after exit with code ${exit.code}, signal ${exit.signal}`,
+      LogLevel.WARN
+    );
+
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(processId);
+      this.respawnProcess(processId).catch(error => {
+        this.logger.error(`Failed to restart process ${processId}:`, error);
+      });
+    }, delay);
+    this.restartTimers.set(processId, timer);
+  }
+
+  private async respawnProcess(processId: string): Promise<void> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) return;
+
+    managedProcess.nextRestartAt = undefined;
+    managedProcess.restartCount++;
+
+    try {
+      await this.runHook(managedProcess, 'preStart');
+      await managedProcess.start();
+      this.watchReadiness(processId);
+      this.runPostStart(processId);
+      this.setupHealthCheck(processId);
+      this.emit('processRestarted', managedProcess.getInfo());
+    } catch (error) {
+      managedProcess.status = ProcessStatus.FAILED;
+      this.database.getStatement('updateProcessStatus').run({
+        id: processId,
+        status: ProcessStatus.FAILED,
+        pid: null,
+        started_at: null
+      });
+      throw error;
+    }
+  }
+
+  private enterCrashLoop(managedProcess: ManagedProcess, attempts: number, exit: ProcessExit): void {
+    const info = managedProcess.getInfo();
+    const message = `Process ${info.name} (${info.id}) is crash looping: exited with code ${exit.code}, signal ${exit.signal} after ${attempts} consecutive restarts; automatic restarts suspended until it is started manually`;
+
+    this.restartAttempts.delete(info.id);
+    managedProcess.status = ProcessStatus.CRASH_LOOP;
+    managedProcess.nextRestartAt = undefined;
+
+    try {
+      this.database.getStatement('updateProcessStatus').run({
+        id: info.id,
+        status: ProcessStatus.CRASH_LOOP,
+        pid: null,
+        started_at: null
+      });
+      this.database.getStatement('insertError').run({
+        process_id: info.id,
+        error_type: 'CrashLoop',
+        message,
+        stack_trace: null,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      this.logger.error('Failed to record crash loop', error);
+    }
+
+    this.logSystem(info.id, message, LogLevel.ERROR);
+    this.emit('processCrashLoop', managedProcess.getInfo());
+  }
+
+  // Poll (or watch the output for) the readiness check of a STARTING process until it passes or times out
+  private watchReadiness(processId: string): void {
+    const managedProcess = this.processes.get(processId);
+    const check = managedProcess?.getInfo().readiness;
+    if (!managedProcess || !check || managedProcess.status !== ProcessStatus.STARTING) return;
+
+    this.cancelReadiness(processId);
+    const description = describeReadiness(check);
+    let probing = false;
+    let interval: NodeJS.Timeout | undefined;
+    let onOutput: ((type: LogType, message: string) => void) | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      if (interval) clearInterval(interval);
+      if (onOutput) managedProcess.off('output', onOutput);
+      this.readinessWatchers.delete(processId);
+    };
+    const ready = () => {
+      cleanup();
+      managedProcess.markReady(description);
+      this.emit('processReady', managedProcess.getInfo());
+    };
+
+    const timeoutMs = check.timeoutMs ?? DEFAULT_READINESS_TIMEOUT_MS;
+    const timeout = setTimeout(() => {
+      cleanup();
+      this.failReadiness(processId, `Process did not become ready within ${timeoutMs}ms (waiting for ${description})`)
+        .catch(error => this.logger.error(`Failed to stop unready process ${processId}:`, error));
+    }, timeoutMs);
+
+    if (check.type === 'log') {
+      const pattern = new RegExp(check.pattern!);
+      onOutput = (_type, message) => {
+        if (pattern.test(message)) ready();
+      };
+      managedProcess.on('output', onOutput);
+    } else {
+      const probe = async (): Promise<boolean> => {
+        switch (check.type) {
+          case 'port':
+            return probePort(check.port!, check.host);
+          case 'http':
+            return probeHttp(readinessUrl(check));
+          case 'command':
+            return this.runCheckCommand(check.command!, managedProcess.getInfo(), 'Readiness check').then(() => true, () => false);
+        }
+        return false;
+      };
+      interval = setInterval(async () => {
+        if (probing) return;
+        probing = true;
+        try {
+          if (await probe() && this.readinessWatchers.has(processId)) ready();
+        } finally {
+          probing = false;
+        }
+      }, check.intervalMs ?? DEFAULT_READINESS_INTERVAL_MS);
+    }
+
+    this.readinessWatchers.set(processId, cleanup);
+  }
+
+  private cancelReadiness(processId: string): void {
+    this.readinessWatchers.get(processId)?.();
+  }
+
+  // A process that never became ready counts as a failed start: stop it and record why
+  private async failReadiness(processId: string, message: string): Promise<void> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) return;
+
+    this.logSystem(processId, message, LogLevel.ERROR);
+    try {
+      this.database.getStatement('insertError').run({
+        process_id: processId,
+        error_type: 'ReadinessTimeout',
+        message,
+        stack_trace: null,
+        timestamp: Date.now()
+      });
+    } catch (error) {
+      this.logger.error('Failed to record readiness timeout', error);
+    }
+
+    managedProcess.emit('readyFailed', new Error(message));
+    await this.stopProcess(processId, false, 'readiness');
+    managedProcess.status = ProcessStatus.FAILED;
+    this.database.getStatement('updateProcessStatus').run({
+      id: processId,
+      status: ProcessStatus.FAILED,
+      pid: null,
+      started_at: null
+    });
+  }
+
+  // Resolves once the process is RUNNING; rejects if it exits, fails its readiness check or the wait times out
+  async waitForReady(processId: string, timeoutMs?: number): Promise<ProcessInfo> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    const replicas = this.replicasOf(processId);
+    if (replicas.length > 0) {
+      await Promise.all(replicas.map(replica => this.waitForReady(replica.getInfo().id, timeoutMs)));
+      return this.describe(managedProcess);
+    }
+    if (managedProcess.status === ProcessStatus.RUNNING) {
+      return managedProcess.getInfo();
+    }
+    if (managedProcess.status !== ProcessStatus.STARTING || !managedProcess.isAlive) {
+      throw new Error(`Process ${processId} is not starting (status: ${managedProcess.status})`);
+    }
+
+    return new Promise<ProcessInfo>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      const settle = () => {
+        if (timer) clearTimeout(timer);
+        managedProcess.off('ready', onReady);
+        managedProcess.off('readyFailed', onFailed);
+        managedProcess.off('exit', onExit);
+      };
+      const onReady = (info: ProcessInfo) => { settle(); resolve(info); };
+      const onFailed = (error: Error) => { settle(); reject(error); };
+      const onExit = (exit: ProcessExit) => {
+        settle();
+        reject(new Error(`Process ${processId} exited before becoming ready (code ${exit.code}, signal ${exit.signal})`));
+      };
+      managedProcess.on('ready', onReady);
+      managedProcess.on('readyFailed', onFailed);
+      managedProcess.on('exit', onExit);
+      if (timeoutMs !== undefined) {
+        timer = setTimeout(() => {
+          settle();
+          reject(new Error(`Timed out after ${timeoutMs}ms waiting for process ${processId} to become ready`));
+        }, timeoutMs);
+      }
+    });
+  }
+
+  // Run the health check command until it passes, for gating on processes that have no readiness check
+  async waitForHealthy(processId: string, timeoutMs: number = DEFAULT_READINESS_TIMEOUT_MS): Promise<ProcessInfo> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess) {
+      throw new Error(`Process ${processId} not found`);
+    }
+    const command = managedProcess.getInfo().healthCheckCommand;
+    if (!command) return managedProcess.getInfo();
+
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      if (!managedProcess.isAlive) {
+        throw new Error(`Process ${processId} exited before becoming healthy (status: ${managedProcess.status})`);
+      }
+      try {
+        await this.runCheckCommand(command, managedProcess.getInfo(), 'Health check');
+        managedProcess.healthStatus = HealthStatus.HEALTHY;
+        managedProcess.lastHealthCheck = Date.now();
+        return managedProcess.getInfo();
+      } catch (error) {
+        if (Date.now() >= deadline) {
+          throw new Error(`Process ${processId} not healthy after ${timeoutMs}ms: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, DEFAULT_READINESS_INTERVAL_MS));
+    }
+  }
+
+  private cancelPendingRestart(processId: string): void {
+    const timer = this.restartTimers.get(processId);
+    if (timer) {
+      clearTimeout(timer);
+      this.restartTimers.delete(processId);
+    }
+    this.restartAttempts.delete(processId);
+
+    const managedProcess = this.processes.get(processId);
+    if (managedProcess) managedProcess.nextRestartAt = undefined;
+  }
+
+  private logSystem(processId: string, message: string, level: LogLevel): void {
+    this.logManager.addLog({
+      processId,
+      type: LogType.SYSTEM,
+      message,
+      timestamp: Date.now(),
+      level
+    });
   }
 
-  listProcesses(filter?: { status?: ProcessStatus; groupId?: string }): ProcessInfo[] {
+  listProcesses(filter?: { status?: ProcessStatus; groupId?: string; selector?: string }): ProcessInfo[] {
     const processes: ProcessInfo[] = [];
+    const requirements = filter?.selector ? parseSelector(filter.selector) : undefined;
+
+    for (const managedProcess of this.processes.values()) {
+      const info = this.describe(managedProcess);
+
+      if (filter) {
+        if (filter.status && info.status !== filter.status) continue;
+        if (filter.groupId && info.groupId !== filter.groupId) continue;
+        if (requirements && !matchesSelector(info.labels, requirements)) continue;
+      }
+
+      processes.push(info);
+    }
+
+    return processes;
+  }
+
+  // Copies of a process with instances
+  listReplicas(processId: string): ProcessInfo[] {
+    return this.replicasOf(processId).map(replica => this.describe(replica));
+  }
+
+  // Nest copies under their logical process for listings; copies whose process was filtered out stay at the top level
+  withReplicas(infos: ProcessInfo[]): ProcessInfo[] {
+    const owners = new Set(infos.filter(info => info.instances !== undefined).map(info => info.id));
+    return infos
+      .filter(info => !(info.replicaOf && owners.has(info.replicaOf)))
+      .map(info => owners.has(info.id) ? { ...info, replicas: infos.filter(replica => replica.replicaOf === info.id) } : info);
+  }
+
+  // A process with instances reports the combined status of its copies, and each copy says whose it is
+  private describe(managedProcess: ManagedProcess): ProcessInfo {
+    const info = managedProcess.getInfo();
+    if (info.instances !== undefined) {
+      return { ...info, status: aggregateStatus(this.replicasOf(info.id).map(replica => replica.status)) };
+    }
+    const replica = parseReplicaId(info.id);
+    if (replica && this.processes.get(replica.ownerId)?.getInfo().instances !== undefined) {
+      return { ...info, replicaOf: replica.ownerId, instanceIndex: replica.index };
+    }
+    return info;
+  }
+
+  // Ordered by index; only processes with instances have copies (scheduled runs reuse the ~n ids for their own instances)
+  private replicasOf(processId: string): ManagedProcess[] {
+    if (this.processes.get(processId)?.getInfo().instances === undefined) return [];
+    const replicas: Array<[number, ManagedProcess]> = [];
+    for (const [id, managedProcess] of this.processes) {
+      const replica = parseReplicaId(id);
+      if (replica?.ownerId === processId) replicas.push([replica.index, managedProcess]);
+    }
+    return replicas.sort((a, b) => a[0] - b[0]).map(([, managedProcess]) => managedProcess);
+  }
+
+  // Whether the process, or any copy of it, is running
+  private isRunning(managedProcess: ManagedProcess): boolean {
+    return managedProcess.isAlive || this.replicasOf(managedProcess.getInfo().id).some(replica => replica.isAlive);
+  }
+
+  // Signals, pausing and input go to one copy at a time
+  private rejectReplicated(managedProcess: ManagedProcess): void {
+    const info = managedProcess.getInfo();
+    if (info.instances !== undefined) {
+      throw new Error(`Process ${info.id} runs ${info.instances} instances; address one of them, e.g. ${replicaId(info.id, 0)}`);
+    }
+  }
+
+  // Ports and printed URLs of running processes. Scans /proc, so only the listings that show them call this.
+  withEndpoints(infos: ProcessInfo[]): ProcessInfo[] {
+    const running = infos.filter(info => info.pid && (info.status === ProcessStatus.RUNNING || info.status === ProcessStatus.STARTING || info.status === ProcessStatus.PAUSED));
+    const ports = findListeningPorts(running.map(info => info.pid!));
+    return infos.map(info => running.includes(info)
+      ? { ...info, ports: ports.get(info.pid!), urls: this.processes.get(info.id)?.urls || [] }
+      : info);
+  }
+
+  // A configured PORT that something else already listens on usually means a second copy of the app
+  private warnIfPortTaken(info: ProcessInfo): void {
+    const port = Number(resolveEnv(info).PORT);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) return;
+    if (isPortListening(port)) {
+      const message = `PORT ${port} is already in use by another process; ${info.name} may fail to bind it`;
+      this.logger.warn(`Process ${info.id}: ${message}`);
+      this.logSystem(info.id, message, LogLevel.WARN);
+    }
+  }
+
+  // Past and current runs of a process, newest first
+  getRunHistory(processId: string, filter: RunHistoryFilter = {}): ProcessRun[] {
+    if (!this.processes.has(processId)) {
+      throw new Error(`Process ${processId} not found`);
+    }
+
+    let query = 'SELECT * FROM process_runs WHERE process_id = ?';
+    const params: (string | number)[] = [processId];
+    if (filter.startTime) {
+      query += ' AND started_at >= ?';
+      params.push(filter.startTime);
+    }
+    if (filter.stopReason) {
+      query += ' AND stop_reason = ?';
+      params.push(filter.stopReason);
+    }
+    query += ' ORDER BY started_at DESC, id DESC LIMIT ?';
+    params.push(filter.limit || 100);
 
-    for (const managedProcess of this.processes.values()) {
-      const info = managedProcess.getInfo();
+    const rows = this.database.getDb().prepare(query).all(...params) as ProcessRunRow[];
+    return rows.map(runFromRow);
+  }
 
-      if (filter) {
-        if (filter.status && info.status !== filter.status) continue;
-        if (filter.groupId && info.groupId !== filter.groupId) continue;
-      }
+  // Config files named by tools are held to the same PM_ALLOWED_CWDS roots as working directories
+  assertPathAllowed(target: string, label: string): void {
+    this.config.assertPathAllowed(target, label);
+  }
 
-      processes.push(info);
+  // Newest first
+  getCrashReports(processId: string, limit: number = 10): CrashReport[] {
+    if (!this.processes.has(processId)) {
+      throw new Error(`Process ${processId} not found`);
     }
+    const rows = this.database.getDb()
+      .prepare('SELECT * FROM crash_reports WHERE process_id = ? ORDER BY created_at DESC, id DESC LIMIT ?')
+      .all(processId, limit) as CrashReportRow[];
+    return rows.map(crashReportFromRow);
+  }
 
-    return processes;
+  // Look a report up by its own id or by the id of the "Crash" error it is linked to
+  getCrashReport(lookup: { reportId?: number; errorId?: number }): CrashReport | undefined {
+    const row = (lookup.reportId !== undefined
+      ? this.database.getDb().prepare('SELECT * FROM crash_reports WHERE id = ?').get(lookup.reportId)
+      : this.database.getDb().prepare('SELECT * FROM crash_reports WHERE error_id = ?').get(lookup.errorId)) as CrashReportRow | undefined;
+    return row ? crashReportFromRow(row) : undefined;
   }
 
   updateProcessGroupId(processId: string, groupId: string | null): void {
@@ -254,6 +1271,44 @@ export class ProcessManager extends EventEmitter {
     }
   }
 
+  // Watching starts with the process and lasts until it is stopped or deleted, so a crashed process
+  // comes back once its source is fixed; restarts keep the watcher unless its settings changed
+  private setupWatch(processId: string): void {
+    const info = this.processes.get(processId)?.getInfo();
+    const existing = this.fileWatchers.get(processId);
+    if (existing && info?.watch && existing.matches(info.cwd || process.cwd(), info.watch)) return;
+
+    this.stopWatching(processId);
+    if (!info?.watch) return;
+    const watcher = new FileWatcher(
+      info.cwd || process.cwd(),
+      info.watch,
+      files => this.restartForChanges(processId, files),
+      message => this.logSystem(processId, message, LogLevel.WARN)
+    );
+    watcher.start();
+    this.fileWatchers.set(processId, watcher);
+  }
+
+  private stopWatching(processId: string): void {
+    this.fileWatchers.get(processId)?.close();
+    this.fileWatchers.delete(processId);
+  }
+
+  private async restartForChanges(processId: string, files: string[]): Promise<void> {
+    const managedProcess = this.processes.get(processId);
+    // Paused processes are left alone until resumed
+    if (!managedProcess || managedProcess.status === ProcessStatus.PAUSED) return;
+
+    this.logSystem(processId, `Restarting after changes to ${describeChanges(files)}`, LogLevel.INFO);
+    try {
+      await this.restartProcess(processId, undefined, 'watch');
+    } catch (error) {
+      this.logger.error(`Failed to restart process ${processId} after file changes:`, error);
+      this.logSystem(processId, `Restart after file changes failed: ${error instanceof Error ? error.message : String(error)}`, LogLevel.ERROR);
+    }
+  }
+
   private setupHealthCheck(processId: string): void {
     const managedProcess = this.processes.get(processId);
     if (!managedProcess) return;
@@ -261,6 +1316,9 @@ export class ProcessManager extends EventEmitter {
     const info = managedProcess.getInfo();
     if (!info.healthCheckCommand || !info.healthCheckInterval) return;
 
+    const existing = this.healthCheckIntervals.get(processId);
+    if (existing) clearInterval(existing);
+
     const interval = setInterval(async () => {
       try {
         await this.performHealthCheck(processId);
@@ -277,44 +1335,11 @@ export class ProcessManager extends EventEmitter {
     if (!managedProcess) return;
 
     const info = managedProcess.getInfo();
-    if (!info.healthCheckCommand) return;
+    // A paused process can't answer its health check
+    if (!info.healthCheckCommand || info.status === ProcessStatus.PAUSED) return;
 
     try {
-      const parts = info.healthCheckCommand.trim().split(/\s+/);
-      let cmd = parts[0];
-      const args = parts.slice(1);
-      if (!cmd.includes('/') && !cmd.includes('\\')) {
-        const viaTool = this.config.resolveAllowedTool(cmd);
-        if (viaTool) cmd = viaTool;
-      }
-      if (this.config.isDangerousCommand(cmd)) {
-        throw new Error(`Dangerous health check command blocked: ${cmd}`);
-      }
-      if (!this.config.isCommandAllowed(cmd)) {
-        throw new Error(`Health check command not allowed: ${cmd}`);
-      }
-      await new Promise<void>((resolve, reject) => {
-        const child = spawn(cmd, args, {
-          stdio: ['ignore', 'pipe', 'pipe'],
-          env: { ...process.env, ...info.env },
-        });
-        const to = setTimeout(() => {
-          child.kill();
-          reject(new Error('Health check timed out'));
-        }, 5000);
-        let out = 0, err = 0;
-        child.stdout?.on('data', (d: Buffer) => {
-          out += d.length; if (out > 1024 * 1024) { child.kill(); reject(new Error('Health check output too large')); }
-        });
-        child.stderr?.on('data', (d: Buffer) => {
-          err += d.length; if (err > 1024 * 1024) { child.kill(); reject(new Error('Health check error output too large')); }
-        });
-        child.on('close', (code) => {
-          clearTimeout(to);
-          code === 0 ? resolve() : reject(new Error(`Health check failed with code ${code}`));
-        });
-        child.on('error', reject);
-      });
+      await this.runCheckCommand(info.healthCheckCommand, info, 'Health check');
 
       managedProcess.healthStatus = HealthStatus.HEALTHY;
       managedProcess.lastHealthCheck = Date.now();
@@ -323,73 +1348,324 @@ export class ProcessManager extends EventEmitter {
       managedProcess.lastHealthCheck = Date.now();
 
       // Auto-restart if configured and not already restarting
-      if (info.autoRestart && managedProcess.status === ProcessStatus.RUNNING) {
+      const policy = resolveRestartPolicy(info);
+      if (policy.mode !== 'never' && this.isAutoRestartEnabled() && managedProcess.status === ProcessStatus.RUNNING) {
         this.logger.info(`Auto-restarting unhealthy process ${processId}`);
-        await this.restartProcess(processId);
+        await this.restartProcess(processId, undefined, 'health');
+      }
+    }
+  }
+
+  // Split a health/readiness/hook command and check it against the command allowlist and denylist;
+  // relative paths such as ./scripts/check.sh are resolved against the process's cwd, where they run
+  private resolveAuxCommand(command: string, label: string, cwd?: string): { cmd: string; args: string[] } {
+    const parts = splitArgs(command);
+    if (parts.length === 0) throw new Error(`${label} command is empty`);
+    let cmd = parts[0];
+    const args = parts.slice(1);
+    if (!cmd.includes('/') && !cmd.includes('\\')) {
+      const viaTool = this.config.resolveAllowedTool(cmd);
+      if (viaTool) cmd = viaTool;
+    } else if (cwd && !path.isAbsolute(cmd)) {
+      cmd = path.resolve(cwd, cmd);
+    }
+    if (this.config.isDangerousCommand(cmd)) {
+      throw new Error(`Dangerous ${label.toLowerCase()} command blocked: ${cmd}`);
+    }
+    if (!this.config.isCommandAllowed(cmd)) {
+      throw new Error(`${label} command not allowed: ${cmd}`);
+    }
+    return { cmd, args };
+  }
+
+  // Run a health/readiness command through the command allowlist; resolves when it exits 0
+  private async runCheckCommand(command: string, info: ProcessInfo, label: string): Promise<void> {
+    const { cmd, args } = this.resolveAuxCommand(command, label, info.cwd);
+    await new Promise<void>((resolve, reject) => {
+      const child = spawn(cmd, args, {
+        cwd: info.cwd,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...resolveEnv(info) },
+      });
+      const to = setTimeout(() => {
+        child.kill();
+        reject(new Error(`${label} timed out`));
+      }, 5000);
+      let out = 0, err = 0;
+      child.stdout?.on('data', (d: Buffer) => {
+        out += d.length; if (out > 1024 * 1024) { child.kill(); reject(new Error(`${label} output too large`)); }
+      });
+      child.stderr?.on('data', (d: Buffer) => {
+        err += d.length; if (err > 1024 * 1024) { child.kill(); reject(new Error(`${label} error output too large`)); }
+      });
+      child.on('close', (code) => {
+        clearTimeout(to);
+        code === 0 ? resolve() : reject(new Error(`${label} failed with code ${code}`));
+      });
+      child.on('error', reject);
+    });
+  }
+
+  // Run a lifecycle hook if the process has one; only start hooks with onFailure "abort" throw
+  private async runHook(managedProcess: ManagedProcess, name: HookName): Promise<void> {
+    const info = managedProcess.getInfo();
+    const hook = info.hooks?.[name];
+    if (!hook) return;
+
+    const startedAt = Date.now();
+    this.logHook(info.id, name, `Running \`${hook.command}\``, LogLevel.INFO);
+    try {
+      await this.runHookCommand(hook, info, name);
+      this.logHook(info.id, name, `Completed in ${Date.now() - startedAt}ms`, LogLevel.INFO);
+    } catch (error) {
+      const message = `${name} hook failed: ${error instanceof Error ? error.message : String(error)}`;
+      if (hookFailurePolicy(name, hook) === 'continue') {
+        this.logHook(info.id, name, `${message}; continuing`, LogLevel.WARN);
+        return;
+      }
+
+      this.logHook(info.id, name, `${message}; aborting start`, LogLevel.ERROR);
+      try {
+        this.database.getStatement('insertError').run({
+          process_id: info.id,
+          error_type: 'HookFailed',
+          message,
+          stack_trace: null,
+          timestamp: Date.now()
+        });
+      } catch (dbError) {
+        this.logger.error('Failed to record hook failure', dbError);
       }
+      throw new Error(message);
     }
   }
 
-  shutdown(): void {
+  // Hooks run with the process's env and cwd; output goes to the process logs, one entry per line
+  private runHookCommand(hook: ProcessHook, info: ProcessInfo, name: HookName): Promise<void> {
+    const { cmd, args } = this.resolveAuxCommand(hook.command, 'Hook', info.cwd);
+    const timeoutMs = hook.timeoutMs ?? DEFAULT_HOOK_TIMEOUT_MS;
+
+    return new Promise<void>((resolve, reject) => {
+      // Own process group, so a timeout also kills whatever the hook spawned
+      const child = spawn(cmd, args, {
+        cwd: info.cwd,
+        detached: true,
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, ...resolveEnv(info) },
+      });
+      const stdout = new LineSplitter(line => this.logHook(info.id, name, line, LogLevel.INFO));
+      const stderr = new LineSplitter(line => this.logHook(info.id, name, line, LogLevel.WARN));
+      child.stdout?.on('data', (d: Buffer) => stdout.push(d.toString()));
+      child.stderr?.on('data', (d: Buffer) => stderr.push(d.toString()));
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          child.kill('SIGKILL');
+        }
+      }, timeoutMs);
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        stdout.flush();
+        stderr.flush();
+        if (timedOut) reject(new Error(`timed out after ${timeoutMs}ms`));
+        else if (code === 0) resolve();
+        else reject(new Error(`exited with code ${code}${signal ? `, signal ${signal}` : ''}`));
+      });
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+  }
+
+  // postStart waits until the process is ready; if it fails with onFailure "abort" the process is stopped
+  private runPostStart(processId: string): void {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess?.getInfo().hooks?.postStart) return;
+
+    this.waitForReady(processId).then(
+      () => this.runHook(managedProcess, 'postStart').catch(() => this.failPostStart(processId)),
+      () => {} // never became ready; that failure is recorded by the readiness check
+    ).catch(error => this.logger.error(`Failed to stop process ${processId} after its postStart hook failed:`, error));
+  }
+
+  private async failPostStart(processId: string): Promise<void> {
+    const managedProcess = this.processes.get(processId);
+    if (!managedProcess?.isAlive) return;
+
+    await this.stopProcess(processId, false, 'hook');
+    managedProcess.status = ProcessStatus.FAILED;
+    this.database.getStatement('updateProcessStatus').run({
+      id: processId,
+      status: ProcessStatus.FAILED,
+      pid: null,
+      started_at: null
+    });
+  }
+
+  private logHook(processId: string, name: HookName, message: string, level: LogLevel): void {
+    this.logManager.addLog({
+      processId,
+      type: LogType.HOOK,
+      message: `[${name}] ${message}`,
+      timestamp: Date.now(),
+      level
+    });
+  }
+
+  async shutdown(): Promise<void> {
+    clearInterval(this.timeoutCheck);
+
     // Clear all health check intervals
     for (const interval of this.healthCheckIntervals.values()) {
       clearInterval(interval);
     }
 
-    // Stop all processes gracefully
+    // Drop pending crash restarts so nothing respawns mid-shutdown
+    for (const timer of this.restartTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.clear();
+    for (const cancel of [...this.readinessWatchers.values()]) {
+      cancel();
+    }
+    for (const watcher of this.fileWatchers.values()) {
+      watcher.close();
+    }
+    this.fileWatchers.clear();
+
+    // Stop attached processes gracefully; detached ones keep running and are re-adopted on next boot
+    const stops: Promise<unknown>[] = [];
     for (const managedProcess of this.processes.values()) {
-      managedProcess.stop(false).catch(error => {
+      if (managedProcess.isDetached) {
+        managedProcess.release();
+        continue;
+      }
+      stops.push(this.stopWithHooks(managedProcess, false, 'shutdown').catch(error => {
         this.logger.error('Error stopping process during shutdown:', error);
-      });
+      }));
     }
+
+    await Promise.all(stops);
   }
 }
 
-class ManagedProcess {
+class ManagedProcess extends EventEmitter {
   private info: ProcessInfo;
   private childProcess?: ChildProcess;
   private database: DatabaseManager;
   private logger: winston.Logger;
   private logManager: LogManager;
-
-  constructor(info: ProcessInfo, database: DatabaseManager, logger: winston.Logger, logManager: LogManager) {
+  private shellPath: string;             // PM_SHELL, for processes in shell mode
+  private stopRequested = false;
+  private stopping = false;              // stop() is waiting for the process tree to exit
+  private lastSignal: string | null = null;
+  private adoptedPid?: number;           // detached process re-adopted after a server restart
+  private startTicks: number | null = null;
+  private livenessTimer?: NodeJS.Timeout;
+  private tailers: FileTailer[] = [];
+  private outputClosed: Promise<unknown> = Promise.resolve();
+  private runId?: number;                // row in process_runs for the current run
+  private stopReason?: StopReason;
+  private detectedUrls: string[] = [];   // URLs the current run printed, e.g. "Local: http://localhost:5173/"
+  private lastActivity = 0;              // last output, CPU use above the idle threshold, start or resume
+  private recentOutput = new OutputHistory(); // tail of the current run's output, for crash reports
+
+  constructor(info: ProcessInfo, database: DatabaseManager, logger: winston.Logger, logManager: LogManager, shellPath: string) {
+    super();
     this.info = info;
     this.database = database;
     this.logger = logger;
     this.logManager = logManager;
+    this.shellPath = shellPath;
   }
 
   async start(): Promise<void> {
-    if (this.childProcess && this.status === ProcessStatus.RUNNING) {
+    if (this.isAlive) {
       throw new Error('Process is already running');
     }
+    const env = resolveEnv(this.info);
+    if (this.info.shell) assertShellEnv(env);
+
+    // Detached processes write to files so their output survives the server; we tail those files
+    let stdio: StdioOptions = [this.info.interactive ? 'pipe' : 'ignore', 'pipe', 'pipe'];
+    const fds: number[] = [];
+    if (this.isDetached && this.info.logFiles) {
+      fs.mkdirSync(path.dirname(this.info.logFiles.stdout), { recursive: true });
+      fds.push(fs.openSync(this.info.logFiles.stdout, 'a'), fs.openSync(this.info.logFiles.stderr, 'a'));
+      stdio = ['ignore', fds[0], fds[1]];
+      this.startTailers();
+    }
 
-    // Spawn the process
-    const spawnOptions = {
+    // Spawn the process. It always leads its own process group so stop can signal the whole
+    // tree (e.g. the dev server that `pnpm dev` forks), not just the direct child.
+    const spawnOptions: SpawnOptions = {
       cwd: this.info.cwd,
-      env: { ...process.env, ...this.info.env },
-      detached: false,
-      stdio: ['ignore', 'pipe', 'pipe'] as ['ignore', 'pipe', 'pipe']
+      env: { ...process.env, ...env },
+      detached: this.isDetached || process.platform !== 'win32',
+      stdio
     };
 
-    this.childProcess = spawn(this.info.command, this.info.args || [], spawnOptions);
+    this.stopRequested = false;
+    this.stopReason = undefined;
+    this.lastSignal = null;
+    this.detectedUrls = [];
+    try {
+      this.childProcess = this.info.shell
+        ? spawn(this.shellPath, ['-c', this.info.command], spawnOptions)
+        : spawn(this.info.command, this.info.args || [], spawnOptions);
+    } finally {
+      // The child holds its own copies of the file descriptors
+      for (const fd of fds) fs.closeSync(fd);
+    }
 
     if (!this.childProcess) {
+      this.stopTailers();
       throw new Error('Failed to spawn process');
     }
 
-    // Update status
-    this.status = ProcessStatus.RUNNING;
+    if (this.isDetached) {
+      // Don't keep the server alive for a child that is meant to outlive it
+      this.childProcess.unref();
+    }
+
+    // Update status; with a readiness check the process stays STARTING until markReady()
+    this.status = this.info.readiness ? ProcessStatus.STARTING : ProcessStatus.RUNNING;
     this.info.pid = this.childProcess.pid;
     this.info.startedAt = Date.now();
+    this.lastActivity = this.info.startedAt;
+    this.recentOutput.clear();
+    this.info.readyAt = undefined;
+    this.info.timeToReadyMs = undefined;
+    this.startTicks = this.info.pid ? readStartTicks(this.info.pid) : null;
 
     // Update database
     this.database.getStatement('updateProcessStatus').run({
       id: this.info.id,
-      status: ProcessStatus.RUNNING,
+      status: this.status,
       pid: this.info.pid,
       started_at: this.info.startedAt
     });
+    this.database.getStatement('updateProcessStartTicks').run({
+      id: this.info.id,
+      start_ticks: this.startTicks
+    });
+    this.database.getStatement('updateProcessReady').run({
+      id: this.info.id,
+      ready_at: null,
+      time_to_ready_ms: null
+    });
+    this.runId = Number(this.database.getStatement('insertRun').run({
+      process_id: this.info.id,
+      pid: this.info.pid ?? null,
+      config_hash: configHash(this.info),
+      started_at: this.info.startedAt
+    }).lastInsertRowid);
 
     // Setup output handlers
     this.setupOutputHandlers();
@@ -404,30 +1680,169 @@ class ManagedProcess {
     });
   }
 
+  markReady(check: string): void {
+    if (this.status !== ProcessStatus.STARTING || !this.isAlive) return;
+
+    this.status = ProcessStatus.RUNNING;
+    this.info.readyAt = Date.now();
+    this.info.timeToReadyMs = this.info.readyAt - (this.info.startedAt || this.info.readyAt);
+
+    this.database.transaction(() => {
+      this.database.getStatement('updateProcessStatus').run({
+        id: this.info.id,
+        status: ProcessStatus.RUNNING,
+        pid: this.info.pid,
+        started_at: this.info.startedAt
+      });
+      this.database.getStatement('updateProcessReady').run({
+        id: this.info.id,
+        ready_at: this.info.readyAt,
+        time_to_ready_ms: this.info.timeToReadyMs
+      });
+      if (this.runId !== undefined) {
+        this.database.getStatement('updateRunReady').run({ id: this.runId, ready_at: this.info.readyAt });
+      }
+    });
+
+    this.logMessage(LogType.SYSTEM, `Ready after ${this.info.timeToReadyMs}ms (${check})`, LogLevel.INFO);
+    this.emit('ready', this.getInfo());
+  }
+
+  // Resume supervision of a detached process that is not our child. We cannot wait() on it,
+  // so exit is detected by polling and the exit status is unknown.
+  adopt(pid: number, startTicks: number | null): void {
+    this.adoptedPid = pid;
+    this.startTicks = startTicks;
+    this.stopRequested = false;
+    this.info.pid = pid;
+    this.info.adopted = true;
+    this.lastActivity = Date.now();
+    // A process paused before the server restart is still stopped
+    this.status = this.status === ProcessStatus.PAUSED ? ProcessStatus.PAUSED : ProcessStatus.RUNNING;
+    // Keep recording into the run the previous server opened
+    const openRun = this.database.getStatement('getOpenRun').get(this.info.id) as { id: number } | undefined;
+    this.runId = openRun?.id;
+
+    if (this.info.logFiles) this.startTailers();
+
+    this.livenessTimer = setInterval(() => this.checkAdoptedLiveness(), 1000);
+    this.logMessage(LogType.SYSTEM, `Re-adopted running process (pid ${pid}) after server restart`, LogLevel.INFO);
+  }
+
+  private checkAdoptedLiveness(): void {
+    if (this.adoptedPid === undefined) return;
+    if (!isSameProcess(this.adoptedPid, this.startTicks)) {
+      this.handleExit(null, this.stopRequested ? this.lastSignal : null);
+    }
+  }
+
+  // Stop supervising without touching the process (server shutdown in detached mode)
+  release(): void {
+    this.stopTailers();
+    if (this.livenessTimer) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = undefined;
+    }
+  }
+
+  private startTailers(): void {
+    if (!this.info.logFiles) return;
+    this.stopTailers();
+    const stdout = new FileTailer(this.info.logFiles.stdout, (chunk) => this.handleOutput(LogType.STDOUT, chunk));
+    const stderr = new FileTailer(this.info.logFiles.stderr, (chunk) => this.handleOutput(LogType.STDERR, chunk));
+    stdout.start();
+    stderr.start();
+    this.tailers = [stdout, stderr];
+  }
+
+  private stopTailers(): void {
+    for (const tailer of this.tailers) {
+      tailer.flush();
+      tailer.stop();
+    }
+    this.tailers = [];
+  }
+
   private setupOutputHandlers(): void {
     if (!this.childProcess) return;
 
+    const streams = [this.childProcess.stdout, this.childProcess.stderr].filter(stream => !!stream);
+    this.outputClosed = Promise.all(streams.map(stream => new Promise(resolve => stream.once('close', resolve))));
+
     // Handle stdout
     if (this.childProcess.stdout) {
       this.childProcess.stdout.on('data', (data: Buffer) => {
-        const message = data.toString().trim();
-        if (message) {
-          this.logMessage(LogType.STDOUT, message, LogLevel.INFO);
-        }
+        this.handleOutput(LogType.STDOUT, data.toString());
       });
     }
 
     // Handle stderr
     if (this.childProcess.stderr) {
       this.childProcess.stderr.on('data', (data: Buffer) => {
-        const message = data.toString().trim();
-        if (message) {
-          this.logMessage(LogType.STDERR, message, LogLevel.ERROR);
-        }
+        this.handleOutput(LogType.STDERR, data.toString());
+      });
+    }
+
+    // Writing after the child closed its end raises EPIPE; an unhandled 'error' would take down the server
+    if (this.childProcess.stdin) {
+      this.childProcess.stdin.on('error', (error) => {
+        this.logger.warn(`stdin of process ${this.info.id} closed: ${error.message}`);
       });
     }
   }
 
+  private handleOutput(type: LogType.STDOUT | LogType.STDERR, data: string): void {
+    const message = data.trim();
+    if (message) {
+      this.lastActivity = Date.now();
+      this.recentOutput.push(type, message);
+      this.logMessage(type, message, type === LogType.STDERR ? LogLevel.ERROR : LogLevel.INFO);
+      this.detectUrls(message);
+      this.emit('output', type, message);
+    }
+  }
+
+  private detectUrls(message: string): void {
+    if (this.detectedUrls.length >= MAX_URLS) return;
+    for (const line of message.split('\n')) {
+      for (const url of parseUrls(line)) {
+        if (this.detectedUrls.length < MAX_URLS && !this.detectedUrls.includes(url)) this.detectedUrls.push(url);
+      }
+    }
+  }
+
+  get urls(): string[] { return [...this.detectedUrls]; }
+
+  // The child can exit before the last of its output has been read from the pipes
+  async waitForOutput(timeoutMs: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([this.outputClosed, new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); })]);
+    clearTimeout(timer);
+  }
+
+  async writeInput(data: Buffer, echo: string): Promise<void> {
+    const stdin = this.childProcess?.stdin;
+    if (!this.info.interactive) {
+      throw new Error(`Process ${this.info.id} does not accept input. Start it with interactive: true`);
+    }
+    if (!stdin || !stdin.writable || !this.isAlive) {
+      throw new Error(`Process ${this.info.id} is not running or its stdin is closed`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      stdin.write(data, (error) => error ? reject(error) : resolve());
+    });
+    this.logMessage(LogType.STDIN, echo, LogLevel.INFO);
+  }
+
+  closeInput(): void {
+    if (!this.info.interactive || !this.childProcess?.stdin) {
+      throw new Error(`Process ${this.info.id} does not accept input. Start it with interactive: true`);
+    }
+    this.childProcess.stdin.end();
+    this.logMessage(LogType.STDIN, '<EOF>', LogLevel.INFO);
+  }
+
   private logMessage(type: LogType, message: string, level: LogLevel): void {
     this.logManager.addLog({
       processId: this.info.id,
@@ -444,11 +1859,16 @@ class ManagedProcess {
     // Determine status based on exit code and signal
     let exitStatus: ProcessStatus;
     let logLevel: LogLevel;
+    const uptimeMs = this.info.startedAt ? Date.now() - this.info.startedAt : 0;
 
-    if (signal) {
-      // Process was killed by signal
+    if (this.stopRequested) {
+      // Our own stop/kill, including processes that trap the signal and exit with a code such as 143 or 1
       exitStatus = ProcessStatus.STOPPED;
       logLevel = LogLevel.INFO;
+    } else if (signal) {
+      // Killed by someone else (OOM killer, external kill)
+      exitStatus = ProcessStatus.CRASHED;
+      logLevel = LogLevel.ERROR;
     } else if (code === 0) {
       // Normal exit
       exitStatus = ProcessStatus.STOPPED;
@@ -459,33 +1879,93 @@ class ManagedProcess {
       logLevel = LogLevel.ERROR;
     }
 
-    this.status = exitStatus;
+    const adopted = this.adoptedPid !== undefined;
+    this.release();
+    this.adoptedPid = undefined;
+
+    if (exitStatus === ProcessStatus.CRASHED && !this.stopRequested) {
+      this.recordCrash(code, signal, uptimeMs, this.runId, this.info.startedAt ?? 0);
+    }
+
     this.info.stoppedAt = Date.now();
     this.info.pid = undefined;
+    this.finishRun(code, signal, this.stopRequested
+      ? this.stopReason ?? 'user'
+      : exitStatus === ProcessStatus.STOPPED ? 'exit' : 'crash');
 
-    // Update database
-    try {
-      this.database.getStatement('updateProcessStatus').run({
-        id: this.info.id,
-        status: this.status,
-        pid: null,
-        started_at: null
-      });
-    } catch (error) {
-      // Database might be closed during shutdown, silently ignore
-      if (!(error instanceof Error) || !error.message?.includes('database connection is not open')) {
-        this.logger.error('Failed to update process status on exit', error);
-      }
+    // During stop() the process only counts as stopped once its whole tree is gone
+    if (!(this.stopping && exitStatus === ProcessStatus.STOPPED)) {
+      this.setExitStatus(exitStatus);
     }
 
     // Log system message
     this.logMessage(
       LogType.SYSTEM,
-      `Process exited with code ${code}, signal ${signal}`,
+      adopted && code === null && !signal
+        ? 'Adopted process exited (exit status unavailable)'
+        : `Process exited with code ${code}, signal ${signal}`,
       logLevel
     );
 
     this.childProcess = undefined;
+
+    this.emit('exit', { code, signal, requested: this.stopRequested, uptimeMs } satisfies ProcessExit);
+  }
+
+  // Postmortem of an exit nobody asked for, stored in crash_reports and linked to a "Crash" entry in errors
+  private async recordCrash(code: number | null, signal: string | null, uptimeMs: number, runId: number | undefined, startedAt: number): Promise<void> {
+    const restartCount = this.info.restartCount;
+    // The last lines, often the stack trace, may still be in the pipes
+    await this.waitForOutput(OUTPUT_DRAIN_MS);
+    const output = this.recentOutput.snapshot();
+    const explanation = explainExit(code, signal, output);
+
+    try {
+      const rows = this.database.getStatement('getRecentMetrics').all({
+        process_id: this.info.id,
+        since: startedAt,
+        limit: CRASH_METRIC_SAMPLES
+      }) as Array<{ cpu_usage: number | null; memory_usage: number | null; timestamp: number }>;
+      const metrics = summarizeMetrics(rows.reverse().map(row => ({
+        timestamp: row.timestamp,
+        cpuUsage: row.cpu_usage ?? 0,
+        memoryUsage: row.memory_usage ?? 0
+      })));
+      const stderr = output.filter(line => line.type === LogType.STDERR).map(line => line.message);
+      const createdAt = Date.now();
+
+      const report = this.database.transaction((): CrashReport => {
+        const errorId = Number(this.database.getStatement('insertError').run({
+          process_id: this.info.id,
+          error_type: 'Crash',
+          message: `Process ${this.info.name} crashed: ${explanation}`,
+          stack_trace: stderr.length > 0 ? stderr.join('\n') : null,
+          timestamp: createdAt
+        }).lastInsertRowid);
+        const id = Number(this.database.getStatement('insertCrashReport').run({
+          process_id: this.info.id,
+          run_id: runId ?? null,
+          error_id: errorId,
+          exit_code: code,
+          signal,
+          explanation,
+          uptime_ms: uptimeMs,
+          restart_count: restartCount,
+          output: JSON.stringify(output),
+          metrics: JSON.stringify(metrics),
+          created_at: createdAt
+        }).lastInsertRowid);
+        return {
+          id, processId: this.info.id, runId, errorId, exitCode: code ?? undefined, signal: signal ?? undefined,
+          explanation, uptimeMs, restartCount, output, metrics, createdAt
+        };
+      });
+
+      this.logMessage(LogType.SYSTEM, `${explanation} (crash report ${report.id})`, LogLevel.ERROR);
+      this.emit('crashReport', report);
+    } catch (error) {
+      this.logger.error(`Failed to record crash report for process ${this.info.id}`, error);
+    }
   }
 
   private handleError(error: Error): void {
@@ -499,41 +1979,245 @@ class ManagedProcess {
       timestamp: Date.now()
     });
 
+    this.stopTailers();
     this.status = ProcessStatus.FAILED;
     this.info.pid = undefined;
+    this.finishRun(null, null, 'crash');
+    this.emit('failed', error);
   }
 
-  async stop(force: boolean = false): Promise<void> {
-    if (!this.childProcess || this.status !== ProcessStatus.RUNNING) {
-      return;
+  // Close the current run in the history and record when the process stopped
+  private finishRun(code: number | null, signal: string | null, reason: StopReason): void {
+    const stoppedAt = Date.now();
+    try {
+      this.database.transaction(() => {
+        this.database.getStatement('updateProcessStoppedAt').run({ id: this.info.id, stopped_at: stoppedAt });
+        if (this.runId !== undefined) {
+          this.database.getStatement('updateRunStopped').run({
+            id: this.runId,
+            stopped_at: stoppedAt,
+            exit_code: code,
+            signal,
+            stop_reason: reason
+          });
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Failed to record end of run for process ${this.info.id}`, error);
+    }
+    this.runId = undefined;
+  }
+
+  private setExitStatus(status: ProcessStatus): void {
+    this.status = status;
+    try {
+      this.database.getStatement('updateProcessStatus').run({
+        id: this.info.id,
+        status,
+        pid: null,
+        started_at: null
+      });
+    } catch (error) {
+      // Database might be closed during shutdown, silently ignore
+      if (!(error instanceof Error) || !error.message?.includes('database connection is not open')) {
+        this.logger.error('Failed to update process status on exit', error);
+      }
     }
+  }
+
+  private get rootPid(): number | undefined {
+    return this.childProcess?.pid ?? this.adoptedPid;
+  }
 
-    const signal = force ? 'SIGKILL' : 'SIGTERM';
-    this.childProcess.kill(signal);
+  // Every PID that belongs to this process: the root, its process group and its descendants
+  private collectTree(known: Set<number>): void {
+    const root = this.rootPid;
+    if (root === undefined) return;
+    known.add(root);
+    for (const pid of listProcessGroup(root)) known.add(pid);
+    for (const pid of listDescendants(root)) known.add(pid);
+  }
 
-    // Wait for process to exit (with timeout)
-    await new Promise<void>((resolve) => {
-      const timeout = setTimeout(() => {
-        if (this.childProcess) {
-          this.childProcess.kill('SIGKILL');
-        }
-        resolve();
-      }, force ? 1000 : 5000);
+  private signalTree(signal: NodeJS.Signals, known: Set<number>): number[] {
+    this.lastSignal = signal;
+    return this.deliverToTree(signal, known);
+  }
+
+  // Signal the process group, then any known tree members that left it. Returns the PIDs signalled.
+  private deliverToTree(signal: NodeJS.Signals, known: Set<number>): number[] {
+    const root = this.rootPid;
+    this.collectTree(known);
+
+    let groupSignalled = false;
+    if (root !== undefined && process.platform !== 'win32') {
+      try {
+        process.kill(-root, signal);
+        groupSignalled = true;
+      } catch {
+        // Group is gone or the root never became a group leader; fall back to single PIDs
+      }
+    }
+
+    const signalled: number[] = [];
+    for (const pid of known) {
+      if (!isPidAlive(pid)) continue;
+      if (groupSignalled && root !== undefined && readProcessGroup(pid) === root) {
+        signalled.push(pid);
+        continue;
+      }
+      try {
+        process.kill(pid, signal);
+        signalled.push(pid);
+      } catch {
+        // Exited in the meantime
+      }
+    }
+    return signalled;
+  }
+
+  // Send the stop signals in turn (stopSignal, then stopEscalation, then SIGKILL), moving on
+  // whenever the tree outlives the grace period
+  async stop(force: boolean = false, reason: StopReason = 'user'): Promise<StopResult> {
+    const startedAt = Date.now();
+    const result: StopResult = { outcome: 'not_running', signalsSent: [], elapsedMs: 0, signalled: [], survivors: [] };
+    if (!this.isAlive) {
+      return result;
+    }
+
+    let plan = FORCE_STOP_PLAN;
+    if (!force) {
+      try {
+        // restartSignal replaces the first stop signal when a watched file changed
+        const restartSignal = reason === 'watch' ? this.info.watch?.restartSignal : undefined;
+        plan = resolveStopPlan(restartSignal ? { ...this.info, stopSignal: restartSignal } : this.info);
+      } catch (error) {
+        this.logger.warn(`Ignoring stop configuration of process ${this.info.id}: ${error instanceof Error ? error.message : error}`);
+        plan = resolveStopPlan({});
+      }
+    }
+
+    // Snapshot the tree before signalling: once the root exits its children are reparented
+    // and can no longer be found by walking down from it
+    const known = new Set<number>();
+    const signalled = new Set<number>();
 
+    const treeGone = () => {
+      // Adopted processes aren't our children, so poll for their exit
+      if (this.adoptedPid !== undefined && !isPidAlive(this.adoptedPid)) {
+        this.handleExit(null, this.lastSignal);
+      }
+      return !this.isAlive && [...known].every(pid => !isPidAlive(pid));
+    };
+
+    const waitFor = (ms: number) => new Promise<boolean>((resolve) => {
+      const timeout = setTimeout(() => {
+        clearInterval(checkExit);
+        resolve(treeGone());
+      }, ms);
       const checkExit = setInterval(() => {
-        if (!this.childProcess || this.status !== ProcessStatus.RUNNING) {
+        if (treeGone()) {
           clearInterval(checkExit);
           clearTimeout(timeout);
-          resolve();
+          resolve(true);
         }
       }, 100);
     });
+
+    this.stopRequested = true;
+    this.stopReason = reason;
+    this.stopping = true;
+    const paused = this.status === ProcessStatus.PAUSED;
+    for (const signal of plan.signals) {
+      this.signalTree(signal, known).forEach(pid => signalled.add(pid));
+      // A stopped process only acts on the signal once it is continued
+      if (paused && signal !== 'SIGKILL') this.deliverToTree('SIGCONT', known);
+      result.signalsSent.push(signal);
+      if (await waitFor(signal === 'SIGKILL' ? KILL_WAIT_MS : plan.timeoutMs)) break;
+    }
+    this.stopping = false;
+
+    result.outcome = force ? 'killed' : result.signalsSent.length > 1 ? 'escalated' : 'graceful';
+    result.elapsedMs = Date.now() - startedAt;
+    result.signalled = [...signalled];
+    result.survivors = [...known].filter(pid => isPidAlive(pid));
+
+    if (result.survivors.length > 0) {
+      this.logMessage(LogType.SYSTEM, `Processes still alive after stop: ${result.survivors.join(', ')}`, LogLevel.ERROR);
+    } else {
+      this.logMessage(
+        LogType.SYSTEM,
+        result.outcome === 'escalated'
+          ? `Stop escalated (${result.signalsSent.join(' -> ')}) after ${result.elapsedMs}ms`
+          : `Stopped ${result.outcome === 'killed' ? 'with' : 'gracefully with'} ${result.signalsSent[0]} in ${result.elapsedMs}ms`,
+        result.outcome === 'escalated' ? LogLevel.WARN : LogLevel.INFO
+      );
+    }
+    if (!this.isAlive && (this.status === ProcessStatus.RUNNING || this.status === ProcessStatus.STARTING || this.status === ProcessStatus.PAUSED)) {
+      this.setExitStatus(result.survivors.length > 0 ? ProcessStatus.FAILED : ProcessStatus.STOPPED);
+    }
+    return result;
+  }
+
+  sendSignal(signal: NodeJS.Signals, scope: SignalScope): number[] {
+    const root = this.rootPid;
+    if (root === undefined) return [];
+    if (scope === 'process') {
+      process.kill(root, signal);
+      return [root];
+    }
+    return this.deliverToTree(signal, new Set());
+  }
+
+  pause(): void {
+    const signalled = this.deliverToTree('SIGSTOP', new Set());
+    this.setLiveStatus(ProcessStatus.PAUSED);
+    this.logMessage(LogType.SYSTEM, `Paused ${signalled.length} process(es) with SIGSTOP`, LogLevel.INFO);
+  }
+
+  resume(): void {
+    const signalled = this.deliverToTree('SIGCONT', new Set());
+    this.lastActivity = Date.now();
+    this.setLiveStatus(ProcessStatus.RUNNING);
+    this.logMessage(LogType.SYSTEM, `Resumed ${signalled.length} process(es) with SIGCONT`, LogLevel.INFO);
+  }
+
+  // Status change of a process that keeps running, so its pid and start time stay recorded
+  private setLiveStatus(status: ProcessStatus): void {
+    this.status = status;
+    this.database.getStatement('updateProcessStatus').run({
+      id: this.info.id,
+      status,
+      pid: this.info.pid ?? null,
+      started_at: this.info.startedAt ?? null
+    });
+  }
+
+  get lastActivityAt(): number { return this.lastActivity; }
+
+  markActive(at: number = Date.now()): void {
+    this.lastActivity = Math.max(this.lastActivity, at);
+  }
+
+  // CPU time of the whole tree in clock ticks; null when /proc can't be read
+  cpuTicks(): number | null {
+    const known = new Set<number>();
+    this.collectTree(known);
+    let total: number | null = null;
+    for (const pid of known) {
+      const ticks = readCpuTicks(pid);
+      if (ticks !== null) total = (total ?? 0) + ticks;
+    }
+    return total;
   }
 
   getInfo(): ProcessInfo {
     return { ...this.info };
   }
 
+  get isAlive(): boolean { return !!this.childProcess || this.adoptedPid !== undefined; }
+
+  get isDetached(): boolean { return !!this.info.detached; }
+
   // Property accessors for direct status updates
   get status(): ProcessStatus { return this.info.status; }
   set status(value: ProcessStatus) { this.info.status = value; }
@@ -547,6 +2231,9 @@ class ManagedProcess {
   get restartCount(): number { return this.info.restartCount; }
   set restartCount(value: number) { this.info.restartCount = value; }
 
+  get nextRestartAt(): number | undefined { return this.info.nextRestartAt; }
+  set nextRestartAt(value: number | undefined) { this.info.nextRestartAt = value; }
+
   updateGroupId(groupId: string | null): void {
     this.info.groupId = groupId || undefined;
   }
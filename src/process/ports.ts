@@ -0,0 +1,52 @@
+// Where a managed process can be reached: TCP ports its process tree listens on, and URLs it printed
+import { childrenByParent, listDescendants, listListeningSockets, listSocketInodes } from './procfs.js';
+
+export const MAX_URLS = 10;
+
+const ANSI_ESCAPE = /\x1b\[[0-9;]*[A-Za-z]/g;
+const URL_PATTERN = /\bhttps?:\/\/(?:localhost|\d{1,3}(?:\.\d{1,3}){3}|\[[0-9a-f:]+\]|[a-z0-9][a-z0-9.-]*):\d{2,5}(?:\/[^\s'"<>`)\]]*)?/gi;
+// "Listening on port 3000", "server started on port 8080" and similar, when no URL is printed
+const PORT_PATTERN = /\b(?:listening|running|started|serving|ready|available)\b.*?\bport\s*:?\s*(\d{2,5})\b/i;
+
+// Wildcard binds aren't browsable addresses; point them at localhost instead
+function normalizeUrl(url: string): string {
+  return url
+    .replace(/^(https?:\/\/)(?:0\.0\.0\.0|\[::\])(?=:)/i, '$1localhost')
+    .replace(/[.,;:!?]+$/, '');
+}
+
+export function parseUrls(line: string): string[] {
+  const text = line.replace(ANSI_ESCAPE, '');
+  const urls = (text.match(URL_PATTERN) || []).map(normalizeUrl);
+  if (urls.length > 0) return [...new Set(urls)];
+
+  const port = PORT_PATTERN.exec(text)?.[1];
+  return port && Number(port) <= 65535 ? [`http://localhost:${port}`] : [];
+}
+
+// Listening ports per root PID, covering each root's descendants; one /proc scan serves the whole batch
+export function findListeningPorts(rootPids: number[]): Map<number, number[]> {
+  const result = new Map<number, number[]>();
+  const sockets = rootPids.length > 0 ? listListeningSockets() : null;
+  if (!sockets || sockets.length === 0) return result;
+
+  const portByInode = new Map(sockets.map(socket => [socket.inode, socket.port]));
+  const children = childrenByParent();
+  for (const root of rootPids) {
+    const ports = new Set<number>();
+    for (const pid of [root, ...listDescendants(root, children)]) {
+      for (const inode of listSocketInodes(pid)) {
+        const port = portByInode.get(inode);
+        if (port !== undefined) ports.add(port);
+      }
+    }
+    result.set(root, [...ports].sort((a, b) => a - b));
+  }
+  return result;
+}
+
+// null when /proc/net isn't available and the answer is unknown
+export function isPortListening(port: number): boolean | null {
+  const sockets = listListeningSockets();
+  return sockets ? sockets.some(socket => socket.port === port) : null;
+}
@@ -0,0 +1,173 @@
+// Minimal /proc helpers (Linux). Every function degrades to null/false where /proc is unavailable.
+import fs from 'node:fs';
+
+export function isPidAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the PID exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Fields of /proc/<pid>/stat after the "(comm)" entry, which may itself contain spaces and parens
+function readStatFields(pid: number): string[] | null {
+  try {
+    const stat = fs.readFileSync(`/proc/${pid}/stat`, 'utf8');
+    const end = stat.lastIndexOf(')');
+    if (end === -1) return null;
+    return stat.slice(end + 2).trim().split(/\s+/);
+  } catch {
+    return null;
+  }
+}
+
+// Start time in clock ticks since boot (field 22). Together with the PID this identifies a process,
+// so a recycled PID is not mistaken for the one we spawned.
+export function readStartTicks(pid: number): number | null {
+  const fields = readStatFields(pid);
+  if (!fields) return null;
+  const ticks = Number(fields[19]);
+  return Number.isFinite(ticks) ? ticks : null;
+}
+
+// USER_HZ, the unit of the tick counts in /proc/<pid>/stat; 100 on all mainstream Linux builds
+export const CLOCK_TICKS_PER_SECOND = 100;
+
+// CPU time of the process and its reaped children in clock ticks (utime + stime + cutime + cstime, fields 14-17)
+export function readCpuTicks(pid: number): number | null {
+  const fields = readStatFields(pid);
+  if (!fields) return null;
+  const ticks = fields.slice(11, 15).reduce((sum, field) => sum + Number(field), 0);
+  return Number.isFinite(ticks) ? ticks : null;
+}
+
+// Without /proc we can only check liveness; with it, the start ticks must match too
+export function isSameProcess(pid: number, startTicks: number | null | undefined): boolean {
+  if (!isPidAlive(pid)) return false;
+  if (startTicks === null || startTicks === undefined) return true;
+  const current = readStartTicks(pid);
+  return current === null || current === startTicks;
+}
+
+interface ProcEntry {
+  pid: number;
+  ppid: number;
+  pgrp: number;
+}
+
+function listProcEntries(): ProcEntry[] {
+  let names: string[];
+  try {
+    names = fs.readdirSync('/proc');
+  } catch {
+    return [];
+  }
+
+  const entries: ProcEntry[] = [];
+  for (const name of names) {
+    if (!/^\d+$/.test(name)) continue;
+    const fields = readStatFields(Number(name));
+    if (!fields) continue; // exited while we were scanning
+    entries.push({ pid: Number(name), ppid: Number(fields[1]), pgrp: Number(fields[2]) });
+  }
+  return entries;
+}
+
+export function readProcessGroup(pid: number): number | null {
+  const fields = readStatFields(pid);
+  if (!fields) return null;
+  const pgrp = Number(fields[2]);
+  return Number.isFinite(pgrp) ? pgrp : null;
+}
+
+// Child PIDs keyed by parent PID, from one scan of /proc
+export function childrenByParent(): Map<number, number[]> {
+  const children = new Map<number, number[]>();
+  for (const entry of listProcEntries()) {
+    const siblings = children.get(entry.ppid) || [];
+    siblings.push(entry.pid);
+    children.set(entry.ppid, siblings);
+  }
+  return children;
+}
+
+// All processes below pid, found by walking parent links. Catches children that
+// moved to their own process group, which a group kill would miss.
+export function listDescendants(pid: number, children: Map<number, number[]> = childrenByParent()): number[] {
+  const result: number[] = [];
+  const queue = [...(children.get(pid) || [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (result.includes(next)) continue;
+    result.push(next);
+    queue.push(...(children.get(next) || []));
+  }
+  return result;
+}
+
+export function listProcessGroup(pgid: number): number[] {
+  return listProcEntries().filter(entry => entry.pgrp === pgid).map(entry => entry.pid);
+}
+
+export interface ListeningSocket {
+  inode: number;
+  port: number;
+  address: string;
+}
+
+// /proc/net addresses are hex in host (little-endian) byte order, 32 bits at a time
+function decodeAddress(hex: string): string {
+  const words = hex.match(/.{8}/g) || [];
+  const bytes = words.flatMap(word => (word.match(/../g) || []).reverse().map(b => parseInt(b, 16)));
+  if (bytes.length === 4) return bytes.join('.');
+  if (bytes.every(b => b === 0)) return '::';
+  if (bytes.slice(0, 15).every(b => b === 0) && bytes[15] === 1) return '::1';
+  const groups: string[] = [];
+  for (let i = 0; i < bytes.length; i += 2) groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+  return groups.join(':');
+}
+
+// TCP sockets in LISTEN state (st 0A) from /proc/net/tcp and tcp6; null when neither table is readable
+export function listListeningSockets(): ListeningSocket[] | null {
+  let readable = false;
+  const sockets: ListeningSocket[] = [];
+  for (const file of ['/proc/net/tcp', '/proc/net/tcp6']) {
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+      readable = true;
+    } catch {
+      continue;
+    }
+    for (const line of text.split('\n').slice(1)) {
+      const fields = line.trim().split(/\s+/);
+      if (fields.length < 10 || fields[3] !== '0A') continue;
+      const [address, port] = fields[1].split(':');
+      sockets.push({ inode: Number(fields[9]), port: parseInt(port, 16), address: decodeAddress(address) });
+    }
+  }
+  return readable ? sockets : null;
+}
+
+// Inodes of the sockets a process holds open; empty when its fd table isn't ours to read
+export function listSocketInodes(pid: number): number[] {
+  let fds: string[];
+  try {
+    fds = fs.readdirSync(`/proc/${pid}/fd`);
+  } catch {
+    return [];
+  }
+
+  const inodes: number[] = [];
+  for (const fd of fds) {
+    try {
+      const match = /^socket:\[(\d+)\]$/.exec(fs.readlinkSync(`/proc/${pid}/fd/${fd}`));
+      if (match) inodes.push(Number(match[1]));
+    } catch {
+      // fd closed while we were scanning
+    }
+  }
+  return inodes;
+}
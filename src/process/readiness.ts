@@ -0,0 +1,91 @@
+import net from 'node:net';
+import http from 'node:http';
+import https from 'node:https';
+import { ReadinessCheck } from '../types/process.js';
+
+export const DEFAULT_READINESS_TIMEOUT_MS = 60000;
+export const DEFAULT_READINESS_INTERVAL_MS = 500;
+
+// Single probe attempts never take longer than this, whatever the overall timeout
+const PROBE_TIMEOUT_MS = 2000;
+
+// Readiness probes only ever target the machine the process runs on, never remote hosts
+export function isLocalHost(host: string): boolean {
+  const name = host.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+  if (name === 'localhost' || name === '::1' || name === '0.0.0.0') return true;
+  return net.isIPv4(name) && name.startsWith('127.');
+}
+
+export function isLocalUrl(url: string): boolean {
+  try {
+    return isLocalHost(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+export function validateReadiness(check: ReadinessCheck): void {
+  if (check.host !== undefined && !isLocalHost(check.host)) {
+    throw new Error(`Readiness host ${check.host} is not local. Use localhost, 127.0.0.1, ::1 or 0.0.0.0`);
+  }
+  if (check.url !== undefined && !isLocalUrl(check.url)) {
+    throw new Error(`Readiness url ${check.url} is not local. Use a localhost, 127.0.0.1, ::1 or 0.0.0.0 URL`);
+  }
+  switch (check.type) {
+    case 'port':
+      if (!check.port) throw new Error('Readiness check of type port requires a port');
+      break;
+    case 'http':
+      if (!check.url && !check.port) throw new Error('Readiness check of type http requires a url or port');
+      break;
+    case 'log':
+      if (!check.pattern) throw new Error('Readiness check of type log requires a pattern');
+      new RegExp(check.pattern); // throws on invalid patterns
+      break;
+    case 'command':
+      if (!check.command) throw new Error('Readiness check of type command requires a command');
+      break;
+    default:
+      throw new Error(`Unknown readiness check type: ${(check as ReadinessCheck).type}`);
+  }
+}
+
+export function readinessUrl(check: ReadinessCheck): string {
+  if (check.url) return check.url;
+  return `http://${check.host || '127.0.0.1'}:${check.port}${check.path || '/'}`;
+}
+
+export function describeReadiness(check: ReadinessCheck): string {
+  switch (check.type) {
+    case 'port': return `port ${check.host || '127.0.0.1'}:${check.port}`;
+    case 'http': return `HTTP 2xx from ${readinessUrl(check)}`;
+    case 'log': return `log line matching /${check.pattern}/`;
+    case 'command': return `command \`${check.command}\``;
+  }
+}
+
+export function probePort(port: number, host: string = '127.0.0.1'): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.connect({ port, host });
+    const done = (ok: boolean) => {
+      socket.destroy();
+      resolve(ok);
+    };
+    socket.setTimeout(PROBE_TIMEOUT_MS, () => done(false));
+    socket.once('connect', () => done(true));
+    socket.once('error', () => done(false));
+  });
+}
+
+export function probeHttp(url: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const client = url.startsWith('https:') ? https : http;
+    const request = client.get(url, { timeout: PROBE_TIMEOUT_MS }, (response) => {
+      response.resume();
+      const status = response.statusCode || 0;
+      resolve(status >= 200 && status < 300);
+    });
+    request.once('timeout', () => request.destroy());
+    request.once('error', () => resolve(false));
+  });
+}
@@ -0,0 +1,79 @@
+// Copies of one definition started with `instances: N`, e.g. queue workers or a local load-test fleet
+import { ProcessConfig, ProcessInfo, ProcessStatus, StopOutcome, StopResult } from '../types/process.js';
+import { configFromInfo } from './definition.js';
+
+// Copy i of process "api" is the ordinary process "api~i", named "api#i"
+export const replicaId = (processId: string, index: number): string => `${processId}~${index}`;
+
+export function parseReplicaId(processId: string): { ownerId: string; index: number } | undefined {
+  const at = processId.lastIndexOf('~');
+  if (at <= 0 || !/^\d+$/.test(processId.slice(at + 1))) return undefined;
+  return { ownerId: processId.slice(0, at), index: Number(processId.slice(at + 1)) };
+}
+
+export function validateReplicas(config: ProcessConfig): void {
+  const { instances, basePort } = config;
+  if (instances === undefined) {
+    if (basePort !== undefined) throw new Error(`Process ${config.name} sets basePort without instances`);
+    return;
+  }
+  if (!Number.isInteger(instances) || instances < 1) {
+    throw new Error('instances must be a positive integer');
+  }
+  if (config.schedule) {
+    throw new Error(`Process ${config.name} can't combine instances with a schedule`);
+  }
+  if (basePort !== undefined && (!Number.isInteger(basePort) || basePort < 1 || basePort + instances - 1 > 65535)) {
+    throw new Error(`basePort ${basePort} with ${instances} instances runs past port 65535`);
+  }
+}
+
+// Copies share the definition but aren't grouped, labelled or started on boot themselves; their logical process is
+export function replicaConfig(owner: ProcessInfo, index: number): ProcessConfig {
+  const env: Record<string, string> = { ...(owner.env || {}), INSTANCE_INDEX: String(index) };
+  let readiness = owner.readiness;
+  if (owner.basePort !== undefined) {
+    env.PORT = String(owner.basePort + index);
+    // A readiness check aimed at basePort follows each copy to its own port
+    if (readiness?.port === owner.basePort) readiness = { ...readiness, port: owner.basePort + index };
+  }
+  return {
+    ...configFromInfo(owner),
+    id: replicaId(owner.id, index),
+    name: `${owner.name}#${index}`,
+    env,
+    readiness,
+    instances: undefined,
+    basePort: undefined,
+    startOnBoot: false,
+    groupId: undefined,
+    labels: undefined
+  };
+}
+
+// Most active first: one running copy makes the process running, crashes only show once nothing runs
+const STATUS_PRECEDENCE = [
+  ProcessStatus.RUNNING,
+  ProcessStatus.STARTING,
+  ProcessStatus.PAUSED,
+  ProcessStatus.CRASH_LOOP,
+  ProcessStatus.CRASHED,
+  ProcessStatus.FAILED
+];
+
+export function aggregateStatus(statuses: ProcessStatus[]): ProcessStatus {
+  return STATUS_PRECEDENCE.find(status => statuses.includes(status)) ?? ProcessStatus.STOPPED;
+}
+
+const OUTCOME_PRECEDENCE: StopOutcome[] = ['killed', 'escalated', 'graceful'];
+
+// Copies stop in parallel, so the combined stop took as long as the slowest one
+export function combineStops(results: StopResult[]): StopResult {
+  return {
+    outcome: OUTCOME_PRECEDENCE.find(outcome => results.some(r => r.outcome === outcome)) ?? 'not_running',
+    signalsSent: [...new Set(results.flatMap(r => r.signalsSent))],
+    elapsedMs: Math.max(0, ...results.map(r => r.elapsedMs)),
+    signalled: results.flatMap(r => r.signalled),
+    survivors: results.flatMap(r => r.survivors)
+  };
+}
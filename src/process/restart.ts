@@ -0,0 +1,64 @@
+import { ProcessConfig, RestartPolicy } from '../types/process.js';
+
+export type ResolvedRestartPolicy = Required<RestartPolicy>;
+
+export interface ProcessExit {
+  code: number | null;
+  signal: string | null;
+  requested: boolean; // true when the exit was caused by stop/kill/restart
+  uptimeMs: number;
+}
+
+export const DEFAULT_RESTART_POLICY: Omit<ResolvedRestartPolicy, 'mode'> = {
+  maxRetries: 5,
+  minUptimeMs: 10000,
+  backoffMs: 1000,
+  maxBackoffMs: 60000
+};
+
+// Jitter applied to each backoff delay (+/- 20%) so restarting siblings don't stampede
+const BACKOFF_JITTER = 0.2;
+
+// Explicit restartPolicy wins; legacy autoRestart maps to on-failure
+export function resolveRestartPolicy(config: Pick<ProcessConfig, 'autoRestart' | 'restartPolicy'>): ResolvedRestartPolicy {
+  const mode = config.restartPolicy?.mode ?? (config.autoRestart ? 'on-failure' : 'never');
+  return {
+    ...DEFAULT_RESTART_POLICY,
+    ...stripUndefined(config.restartPolicy || {}),
+    mode
+  };
+}
+
+export function isFailedExit(exit: ProcessExit): boolean {
+  if (exit.requested) return false;
+  if (exit.signal) return true; // killed by someone else (OOM killer, external kill)
+  return exit.code !== 0;
+}
+
+export function shouldRestart(policy: ResolvedRestartPolicy, exit: ProcessExit): boolean {
+  if (exit.requested) return false;
+  switch (policy.mode) {
+    case 'always':
+      return true;
+    case 'on-failure':
+      return isFailedExit(exit);
+    case 'never':
+    default:
+      return false;
+  }
+}
+
+// attempt is 1-based: first restart waits backoffMs, then 2x, 4x, ... capped at maxBackoffMs
+export function computeBackoffDelay(
+  policy: ResolvedRestartPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const base = Math.min(policy.maxBackoffMs, policy.backoffMs * Math.pow(2, Math.max(0, attempt - 1)));
+  const jitter = base * BACKOFF_JITTER * (random() * 2 - 1);
+  return Math.max(0, Math.round(base + jitter));
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -0,0 +1,81 @@
+import { createHash } from 'node:crypto';
+import { ProcessInfo, ProcessRun, StopReason } from '../types/process.js';
+import { configFromInfo } from './definition.js';
+
+export interface ProcessRunRow {
+  id: number;
+  process_id: string;
+  pid: number | null;
+  config_hash: string | null;
+  started_at: number;
+  ready_at: number | null;
+  stopped_at: number | null;
+  exit_code: number | null;
+  signal: string | null;
+  stop_reason: StopReason | null;
+}
+
+export interface RunHistoryFilter {
+  startTime?: number;
+  stopReason?: StopReason;
+  limit?: number;
+}
+
+export interface RunSummary {
+  runs: number;
+  byStopReason: Partial<Record<StopReason, number>>;
+  running: number;
+  averageDurationMs?: number;
+  lastCrashAt?: number;
+}
+
+export function runFromRow(row: ProcessRunRow): ProcessRun {
+  return {
+    id: row.id,
+    processId: row.process_id,
+    pid: row.pid ?? undefined,
+    configHash: row.config_hash || '',
+    startedAt: row.started_at,
+    readyAt: row.ready_at ?? undefined,
+    stoppedAt: row.stopped_at ?? undefined,
+    exitCode: row.exit_code ?? undefined,
+    signal: row.signal ?? undefined,
+    stopReason: row.stop_reason ?? undefined,
+    durationMs: row.stopped_at ? row.stopped_at - row.started_at : undefined
+  };
+}
+
+// Short fingerprint of the definition a run was started with, to tell which runs share a config
+export function configHash(info: ProcessInfo): string {
+  const { id: _id, groupId: _groupId, ...definition } = configFromInfo(info);
+  return createHash('sha256').update(JSON.stringify(definition)).digest('hex').slice(0, 12);
+}
+
+export function summarizeRuns(runs: ProcessRun[]): RunSummary {
+  const byStopReason: Partial<Record<StopReason, number>> = {};
+  const durations: number[] = [];
+  let running = 0;
+  let lastCrashAt: number | undefined;
+
+  for (const run of runs) {
+    if (!run.stopReason) {
+      running++;
+      continue;
+    }
+    byStopReason[run.stopReason] = (byStopReason[run.stopReason] || 0) + 1;
+    if (run.durationMs !== undefined) durations.push(run.durationMs);
+    if (run.stopReason === 'crash') {
+      lastCrashAt = Math.max(lastCrashAt ?? 0, run.stoppedAt ?? run.startedAt);
+    }
+  }
+
+  return {
+    runs: runs.length,
+    byStopReason,
+    running,
+    averageDurationMs: durations.length > 0
+      ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+      : undefined,
+    lastCrashAt
+  };
+}
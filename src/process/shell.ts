@@ -0,0 +1,195 @@
+// Quoted argument parsing, and the command check behind shell mode, e.g. `npm run build && npm start`
+
+interface Token {
+  kind: 'word' | 'operator';
+  value: string;
+  literal: boolean;         // no $ expansion, so the value is what the shell will see
+}
+
+// Longest first so "&&" wins over "&"
+const OPERATORS = ['&>>', '<<<', '<<', '&&', '||', '|&', '>>', '&>', '>&', '<&', '>|', '<>', ';', '|', '&', '>', '<', '\n'];
+const REDIRECTIONS = new Set(['&>>', '>>', '&>', '>&', '<&', '>|', '<>', '>', '<']);
+
+// Builtins that only affect the shell itself
+const SAFE_BUILTINS = new Set([':', 'cd', 'export', 'unset', 'set', 'echo', 'printf', 'true', 'false', 'test', '[', 'pwd', 'wait', 'exit', 'shift', 'read', 'umask']);
+// Builtins that run code the allowlist can't see
+const OPAQUE_BUILTINS = new Set(['eval', 'exec', 'source', '.', 'command', 'builtin', 'alias', 'trap']);
+// Builtins whose arguments name variables to set or clear
+const VARIABLE_BUILTINS = new Set(['export', 'unset', 'read']);
+const KEYWORDS = new Set(['if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case', 'esac', 'select', 'function', '!', '{', '}', '[[', ']]']);
+
+const ASSIGNMENT = /^[A-Za-z_][A-Za-z0-9_]*=/;
+// Variables that decide which programs the shell runs; scripts are checked against the server's values, so they stay fixed
+const PINNED_SHELL_VARS = ['PATH', 'BASH_ENV', 'ENV'];
+const UNSUPPORTED = 'move it into a script file and run that instead';
+
+function lex(input: string, shell: boolean): Token[] {
+  const tokens: Token[] = [];
+  let word = '';
+  let inWord = false;
+  let literal = true;
+  const flush = () => {
+    if (inWord) tokens.push({ kind: 'word', value: word, literal });
+    word = '';
+    inWord = false;
+    literal = true;
+  };
+  const substitution = (at: number) => input[at] === '`' || (input[at] === '$' && input[at + 1] === '(');
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (ch === '\\') {
+      if (input[i + 1] === '\n') {
+        i++; // line continuation
+      } else if (i + 1 < input.length) {
+        word += input[++i];
+        inWord = true;
+      } else {
+        word += ch;
+        inWord = true;
+      }
+      continue;
+    }
+
+    if (ch === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new Error('Unterminated single quote');
+      word += input.slice(i + 1, end);
+      inWord = true;
+      i = end;
+      continue;
+    }
+
+    if (ch === '"') {
+      let j = i + 1;
+      for (; j < input.length && input[j] !== '"'; j++) {
+        if (input[j] === '\\' && '"\\$`'.includes(input[j + 1])) {
+          word += input[++j];
+          continue;
+        }
+        if (shell && substitution(j)) throw new Error(`Command substitution is not supported in shell mode; ${UNSUPPORTED}`);
+        if (input[j] === '$') literal = false;
+        word += input[j];
+      }
+      if (j >= input.length) throw new Error('Unterminated double quote');
+      inWord = true;
+      i = j;
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\r' || (ch === '\n' && !shell)) {
+      flush();
+      continue;
+    }
+
+    if (shell) {
+      if (substitution(i)) throw new Error(`Command substitution is not supported in shell mode; ${UNSUPPORTED}`);
+      if (ch === '(' || ch === ')') throw new Error(`Subshells are not supported in shell mode; ${UNSUPPORTED}`);
+      if (ch === '#' && !inWord) {
+        while (i + 1 < input.length && input[i + 1] !== '\n') i++;
+        continue;
+      }
+      const op = OPERATORS.find(candidate => input.startsWith(candidate, i));
+      if (op) {
+        if (op === '<<' || op === '<<<') throw new Error(`Here-documents are not supported in shell mode; ${UNSUPPORTED}`);
+        if (REDIRECTIONS.has(op) && inWord && literal && /^\d+$/.test(word)) {
+          word = ''; // file descriptor of the redirection, e.g. the 2 in 2>&1
+          inWord = false;
+        } else {
+          flush();
+        }
+        tokens.push({ kind: 'operator', value: op, literal: true });
+        i += op.length - 1;
+        continue;
+      }
+      if (ch === '$') literal = false;
+    }
+
+    word += ch;
+    inWord = true;
+  }
+
+  flush();
+  return tokens;
+}
+
+// Split a command line into words the way a shell would quote them, without any expansion:
+// `curl -sf "http://localhost:3000/health?full=1"` -> ['curl', '-sf', 'http://localhost:3000/health?full=1']
+export function splitArgs(command: string): string[] {
+  return lex(command, false).map(token => token.value);
+}
+
+// The external commands a shell script invokes, in order, for checking against the allowlist.
+// Supports simple commands with leading VAR=value assignments, joined by &&, ||, ;, |, & or newlines,
+// plus redirections; control structures, subshells and command substitution are rejected, as are changes to
+// PATH and relative commands after a cd, which would run something other than what was checked.
+export function shellCommands(script: string): string[] {
+  const commands: string[] = [];
+  let atCommand = true;
+  let redirectTarget = false;
+  let builtin: string | undefined;
+  let changedDirectory = false;
+  const assertUnpinned = (name: string) => {
+    if (PINNED_SHELL_VARS.includes(name)) {
+      throw new Error(`Changing ${name} is not supported in shell mode: commands are checked against the server's ${name}`);
+    }
+  };
+
+  for (const token of lex(script, true)) {
+    if (token.kind === 'operator') {
+      if (redirectTarget) throw new Error(`Missing target for redirection before "${token.value.trim() || 'newline'}"`);
+      if (REDIRECTIONS.has(token.value)) redirectTarget = true;
+      else {
+        atCommand = true;
+        builtin = undefined;
+      }
+      continue;
+    }
+    if (redirectTarget) {
+      redirectTarget = false;
+      continue;
+    }
+    if (!atCommand) {
+      if (builtin && !token.literal) throw new Error(`Arguments of ${builtin} must be literal in shell mode, got "${token.value}"`);
+      if (builtin) assertUnpinned(token.value.split('=')[0]);
+      continue;
+    }
+    if (ASSIGNMENT.test(token.value)) {
+      assertUnpinned(token.value.split('=')[0]);
+      continue;
+    }
+
+    const command = token.value;
+    if (KEYWORDS.has(command)) {
+      throw new Error(`"${command}" is not supported in shell mode, which runs simple commands joined by &&, ||, ;, | and &; ${UNSUPPORTED}`);
+    }
+    if (OPAQUE_BUILTINS.has(command)) {
+      throw new Error(`"${command}" is not supported in shell mode: the commands it runs can't be checked against PM_ALLOWED_COMMANDS`);
+    }
+    if (!token.literal) {
+      throw new Error(`Command names must be literal in shell mode, got "${command}"`);
+    }
+    // The allowlist check resolves relative commands against the process's cwd, which cd leaves behind
+    if (changedDirectory && command.includes('/') && !command.startsWith('/')) {
+      throw new Error(`Relative command ${command} after cd is not supported in shell mode; use an absolute path or set cwd instead`);
+    }
+    atCommand = false;
+    if (command === 'cd') changedDirectory = true;
+    if (VARIABLE_BUILTINS.has(command)) builtin = command;
+    if (!SAFE_BUILTINS.has(command)) commands.push(command);
+  }
+
+  if (redirectTarget) throw new Error('Missing target for redirection at end of script');
+  return commands;
+}
+
+// Env overrides and env files can't move those variables either; checked on define and again on every spawn,
+// since env files are re-read each time
+export function assertShellEnv(env: Record<string, string>): void {
+  for (const name of PINNED_SHELL_VARS) {
+    if (env[name] !== undefined && env[name] !== process.env[name]) {
+      throw new Error(`Processes in shell mode can't set ${name}: their commands are checked against the server's ${name}`);
+    }
+  }
+}
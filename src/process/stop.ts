@@ -0,0 +1,36 @@
+import os from 'node:os';
+import { ProcessConfig } from '../types/process.js';
+
+export const DEFAULT_STOP_SIGNAL = 'SIGTERM';
+export const DEFAULT_STOP_TIMEOUT_MS = 5000;
+// How long to wait after SIGKILL before giving up and reporting survivors
+export const KILL_WAIT_MS = 2000;
+
+export interface StopPlan {
+  signals: NodeJS.Signals[]; // sent in order, each after the previous one timed out; always ends in SIGKILL
+  timeoutMs: number;         // grace period after each signal but the final SIGKILL
+}
+
+export function isValidSignal(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(os.constants.signals, name);
+}
+
+export function resolveStopPlan(config: Pick<ProcessConfig, 'stopSignal' | 'stopTimeoutMs' | 'stopEscalation'>): StopPlan {
+  const signals = [config.stopSignal || DEFAULT_STOP_SIGNAL, ...(config.stopEscalation || [])];
+  for (const signal of signals) {
+    if (!isValidSignal(signal)) {
+      throw new Error(`Invalid stop signal: ${signal}. Use a signal name such as SIGTERM, SIGINT or SIGQUIT`);
+    }
+  }
+  if (signals[signals.length - 1] !== 'SIGKILL') {
+    signals.push('SIGKILL');
+  }
+
+  return {
+    signals: signals as NodeJS.Signals[],
+    timeoutMs: config.stopTimeoutMs ?? DEFAULT_STOP_TIMEOUT_MS
+  };
+}
+
+// Plan for kill_process and force stops: skip the grace period entirely
+export const FORCE_STOP_PLAN: StopPlan = { signals: ['SIGKILL'], timeoutMs: KILL_WAIT_MS };
@@ -0,0 +1,65 @@
+import fs from 'node:fs';
+
+// Polls a growing file and hands new content to a callback; used to follow the
+// output of detached processes, whose stdout/stderr are redirected to files.
+export class FileTailer {
+  private filePath: string;
+  private onData: (chunk: string) => void;
+  private position = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(filePath: string, onData: (chunk: string) => void) {
+    this.filePath = filePath;
+    this.onData = onData;
+  }
+
+  // fromEnd skips content written before we started following (e.g. before a server restart)
+  start(fromEnd: boolean = true, intervalMs: number = 500): void {
+    this.stop();
+    this.position = fromEnd ? this.size() : 0;
+    this.timer = setInterval(() => this.poll(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Read whatever is left, e.g. after the process exited
+  flush(): void {
+    this.poll();
+  }
+
+  private size(): number {
+    try {
+      return fs.statSync(this.filePath).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private poll(): void {
+    const size = this.size();
+    if (size < this.position) {
+      // File was truncated or rotated
+      this.position = 0;
+    }
+    if (size === this.position) return;
+
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(this.filePath, 'r');
+      const length = Math.min(size - this.position, 1024 * 1024);
+      const buffer = Buffer.alloc(length);
+      const read = fs.readSync(fd, buffer, 0, length, this.position);
+      this.position += read;
+      if (read > 0) this.onData(buffer.subarray(0, read).toString());
+    } catch {
+      // File vanished between stat and read; try again next tick
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+}
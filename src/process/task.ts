@@ -0,0 +1,59 @@
+export const DEFAULT_TASK_TIMEOUT_MS = 5 * 60 * 1000;
+export const DEFAULT_HEAD_LINES = 20;
+export const DEFAULT_TAIL_LINES = 80;
+// Output still buffered in the pipes when the task exits; grandchildren holding them open don't block the result
+export const OUTPUT_DRAIN_MS = 500;
+// Finished task records kept for their logs and run history; older ones are purged as new tasks are stored
+export const MAX_TASK_RECORDS = 20;
+const MAX_LINE_LENGTH = 2000;
+
+export interface TaskOptions {
+  timeoutMs?: number;
+  detach?: boolean;         // on timeout leave the task running instead of stopping it
+  headLines?: number;
+  tailLines?: number;
+}
+
+// Keeps the first and last lines of a stream, dropping the middle once it gets long
+export class OutputCapture {
+  private headLines: number;
+  private tailLines: number;
+  private head: string[] = [];
+  private tail: string[] = [];
+  private total = 0;
+
+  constructor(headLines: number = DEFAULT_HEAD_LINES, tailLines: number = DEFAULT_TAIL_LINES) {
+    this.headLines = headLines;
+    this.tailLines = tailLines;
+  }
+
+  push(chunk: string): void {
+    for (const raw of chunk.split('\n')) {
+      const line = raw.length > MAX_LINE_LENGTH ? `${raw.slice(0, MAX_LINE_LENGTH)}…` : raw;
+      this.total++;
+      if (this.head.length < this.headLines) {
+        this.head.push(line);
+      } else if (this.tailLines > 0) {
+        this.tail.push(line);
+        if (this.tail.length > this.tailLines) this.tail.shift();
+      }
+    }
+  }
+
+  get lineCount(): number {
+    return this.total;
+  }
+
+  get truncated(): boolean {
+    return this.total > this.head.length + this.tail.length;
+  }
+
+  toString(): string {
+    const omitted = this.total - this.head.length - this.tail.length;
+    return [
+      ...this.head,
+      ...(omitted > 0 ? [`... ${omitted} lines omitted ...`] : []),
+      ...this.tail
+    ].join('\n');
+  }
+}
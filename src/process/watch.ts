@@ -0,0 +1,151 @@
+// Restarts on source changes for processes without a watcher of their own, e.g. Go binaries, Python workers or `node server.js`
+import fs from 'node:fs';
+import path from 'node:path';
+import { WatchConfig } from '../types/process.js';
+import { isValidSignal } from './stop.js';
+
+export const DEFAULT_WATCH_DEBOUNCE_MS = 500;
+// However long a burst of changes (say a git checkout) lasts, restarts are at least this far apart
+export const MIN_WATCH_RESTART_INTERVAL_MS = 2000;
+// Never worth a restart; patterns from the config are added to these
+export const DEFAULT_WATCH_IGNORE = ['.git', 'node_modules', '__pycache__', '*.log', '*.swp', '*~'];
+const LISTED_CHANGES = 5;
+
+export function validateWatch(watch: WatchConfig, cwd: string): void {
+  for (const watched of watch.paths ?? ['.']) {
+    const relative = path.relative(cwd, path.resolve(cwd, watched));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`Watch path ${watched} is outside the working directory ${cwd}`);
+    }
+  }
+  if (watch.debounceMs !== undefined && !(Number.isInteger(watch.debounceMs) && watch.debounceMs >= 0)) {
+    throw new Error('watch.debounceMs must be a non-negative number of milliseconds');
+  }
+  if (watch.restartSignal && !isValidSignal(watch.restartSignal)) {
+    throw new Error(`Invalid restart signal: ${watch.restartSignal}. Use a signal name such as SIGTERM, SIGINT or SIGHUP`);
+  }
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      // "**/" matches any number of directories, a trailing "**" everything below
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Like .gitignore: a pattern without a slash matches a file or directory name at any depth
+// ("node_modules", "*.log"), one with a slash matches the path from the working directory ("dist/**", "cmd/*/testdata")
+export function isIgnored(relativePath: string, patterns: string[]): boolean {
+  const segments = relativePath.split(/[\\/]/).filter(Boolean);
+  return patterns.some(raw => {
+    const pattern = raw.replace(/^\.\//, '').replace(/\/+$/, '');
+    if (!pattern) return false;
+    const regex = globToRegExp(pattern);
+    if (!pattern.includes('/')) return segments.some(segment => regex.test(segment));
+    // Ignoring a directory ignores everything below it
+    return segments.some((_, i) => regex.test(segments.slice(0, i + 1).join('/')));
+  });
+}
+
+// "src/main.go, src/util.go and 12 more"
+export function describeChanges(files: string[]): string {
+  const listed = files.slice(0, LISTED_CHANGES).join(', ');
+  return files.length > LISTED_CHANGES ? `${listed} and ${files.length - LISTED_CHANGES} more` : listed;
+}
+
+// Collects changes under the working directory until they settle, then hands the changed files
+// (relative to it) to onChange; changes made while onChange runs are collected for the next call
+export class FileWatcher {
+  private root: string;
+  private config: WatchConfig;
+  private onChange: (files: string[]) => Promise<void>;
+  private onError: (message: string) => void;
+  private ignore: string[];
+  private watchers: fs.FSWatcher[] = [];
+  private changed = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private busy = false;
+  private closed = false;
+  private lastFiredAt = 0;
+
+  constructor(root: string, config: WatchConfig, onChange: (files: string[]) => Promise<void>, onError: (message: string) => void) {
+    this.root = path.resolve(root);
+    this.config = config;
+    this.onChange = onChange;
+    this.onError = onError;
+    this.ignore = [...DEFAULT_WATCH_IGNORE, ...(config.ignore || [])];
+  }
+
+  // Whether this watcher already covers the given settings, so a restart can keep it
+  matches(root: string, config: WatchConfig): boolean {
+    return this.root === path.resolve(root) && JSON.stringify(this.config) === JSON.stringify(config);
+  }
+
+  start(): void {
+    for (const watched of this.config.paths ?? ['.']) {
+      const target = path.resolve(this.root, watched);
+      try {
+        const isDirectory = fs.statSync(target).isDirectory();
+        const watcher = fs.watch(target, { recursive: isDirectory }, (_event, filename) => {
+          this.record(isDirectory ? (filename ? path.join(target, filename.toString()) : target) : target);
+        });
+        watcher.on('error', error => this.onError(`Stopped watching ${watched}: ${error.message}`));
+        this.watchers.push(watcher);
+      } catch (error) {
+        this.onError(`Can't watch ${watched}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+    this.changed.clear();
+  }
+
+  private record(file: string): void {
+    const relative = path.relative(this.root, file) || '.';
+    if (this.closed || isIgnored(relative, this.ignore)) return;
+    this.changed.add(relative);
+    if (!this.busy) this.schedule();
+  }
+
+  // Every change pushes the restart back by debounceMs, but never before the minimum interval has passed
+  private schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    const debounceMs = this.config.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+    const wait = Math.max(debounceMs, this.lastFiredAt + MIN_WATCH_RESTART_INTERVAL_MS - Date.now());
+    this.timer = setTimeout(() => this.fire(), wait);
+  }
+
+  private async fire(): Promise<void> {
+    this.timer = undefined;
+    if (this.closed || this.changed.size === 0) return;
+
+    const files = [...this.changed].sort();
+    this.changed.clear();
+    this.busy = true;
+    this.lastFiredAt = Date.now();
+    try {
+      await this.onChange(files);
+    } finally {
+      this.busy = false;
+      if (!this.closed && this.changed.size > 0) this.schedule();
+    }
+  }
+}
@@ -6,8 +6,10 @@ import { GroupManager } from '../groups/manager.js';
 import { StatsCollector } from '../monitoring/collector.js';
 import { HealthCheckService } from '../monitoring/health.js';
 import winston from 'winston';
-import { ListResourcesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ListResourcesRequestSchema, ListResourceTemplatesRequestSchema, ReadResourceRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { ProcessStatus, HealthStatus } from '../types/process.js';
+import { summarizeRuns } from '../process/runs.js';
+import { redactPayload } from '../utils/redact.js';
 
 // Using official SDK request schemas
 
@@ -88,50 +90,72 @@ export class ResourceProvider {
       };
     });
 
-    // Resource read handler
+    // Per-process resources
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: [
+          {
+            uriTemplate: 'process://{id}/runs',
+            name: 'Process Run History',
+            description: 'Past runs of a process with exit codes, signals, durations and stop reasons',
+            mimeType: 'application/json'
+          }
+        ]
+      };
+    });
+
+    // Resource read handler; payloads get the same secret masking as tool results
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const uri = request.params.uri;
+      const result = await this.readResource(request.params.uri);
+      return { ...result, contents: result.contents.map(item => ({ ...item, text: redactPayload(item.text) })) };
+    });
+  }
 
-      try {
-        switch (uri) {
-          case 'processes://list':
-            return await this.getProcessListResource();
+  private async readResource(uri: string) {
+    try {
+      const runsMatch = uri.match(/^process:\/\/([^/]+)\/runs$/);
+      if (runsMatch) {
+        return this.getProcessRunsResource(uri, decodeURIComponent(runsMatch[1]));
+      }
 
-          case 'logs://recent':
-            return await this.getRecentLogsResource();
+      switch (uri) {
+        case 'processes://list':
+          return await this.getProcessListResource();
 
-          case 'errors://latest':
-            return await this.getLatestErrorsResource();
+        case 'logs://recent':
+          return await this.getRecentLogsResource();
 
-          case 'groups://list':
-            return await this.getGroupsResource();
+        case 'errors://latest':
+          return await this.getLatestErrorsResource();
 
-          case 'health://status':
-            return await this.getHealthStatusResource();
+        case 'groups://list':
+          return await this.getGroupsResource();
 
-          case 'metrics://summary':
-            return await this.getMetricsSummaryResource();
+        case 'health://status':
+          return await this.getHealthStatusResource();
 
-          default:
-            throw new Error(`Unknown resource URI: ${uri}`);
-        }
-      } catch (error) {
-        this.logger.error(`Failed to read resource ${uri}:`, error);
-        return {
-          contents: [
-            {
-              uri,
-              mimeType: 'text/plain',
-              text: `Error reading resource: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ]
-        };
+        case 'metrics://summary':
+          return await this.getMetricsSummaryResource();
+
+        default:
+          throw new Error(`Unknown resource URI: ${uri}`);
       }
-    });
+    } catch (error) {
+      this.logger.error(`Failed to read resource ${uri}:`, error);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: 'text/plain',
+            text: `Error reading resource: ${error instanceof Error ? error.message : String(error)}`
+          }
+        ]
+      };
+    }
   }
 
   private async getProcessListResource() {
-    const processes = this.processManager.listProcesses();
+    const processes = this.processManager.withEndpoints(this.processManager.listProcesses());
 
     // Enrich with latest metrics
     const enrichedProcesses = await Promise.all(
@@ -164,7 +188,7 @@ export class ResourceProvider {
       total: processes.length,
       running: processes.filter(p => p.status === ProcessStatus.RUNNING).length,
       stopped: processes.filter(p => p.status === ProcessStatus.STOPPED).length,
-      failed: processes.filter(p => p.status === ProcessStatus.FAILED || p.status === ProcessStatus.CRASHED).length
+      failed: processes.filter(p => p.status === ProcessStatus.FAILED || p.status === ProcessStatus.CRASHED || p.status === ProcessStatus.CRASH_LOOP).length
     };
 
     return {
@@ -178,6 +202,20 @@ export class ResourceProvider {
     };
   }
 
+  private getProcessRunsResource(uri: string, processId: string) {
+    const runs = this.processManager.getRunHistory(processId);
+
+    return {
+      contents: [
+        {
+          uri,
+          mimeType: 'application/json',
+          text: JSON.stringify({ summary: summarizeRuns(runs), runs }, null, 2)
+        }
+      ]
+    };
+  }
+
   private async getRecentLogsResource() {
     try {
       const logs = await this.logManager.getLogs({ limit: 100 });
@@ -433,7 +471,9 @@ export class ResourceProvider {
       [ProcessStatus.STOPPED]: '⚫',
       [ProcessStatus.FAILED]: '🔴',
       [ProcessStatus.CRASHED]: '💥',
-      [ProcessStatus.STARTING]: '🟡'
+      [ProcessStatus.CRASH_LOOP]: '🔁',
+      [ProcessStatus.STARTING]: '🟡',
+      [ProcessStatus.PAUSED]: '⏸️'
     };
 
     const healthEmoji: Record<string, string> = {
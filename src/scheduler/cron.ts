@@ -0,0 +1,207 @@
+import { ProcessSchedule } from '../types/process.js';
+
+// Five-field cron expressions (minute hour day-of-month month day-of-week) evaluated in an IANA timezone.
+// Supports *, lists, ranges, steps, month/weekday names and the @hourly/@daily/@weekly/@monthly/@yearly macros.
+// As in Vixie cron, when both day fields are restricted a day matches if either does.
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  namesOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesOffset: 0 }
+];
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const lower = token.toLowerCase();
+  const named = spec.names?.indexOf(lower) ?? -1;
+  const value = named >= 0 ? named + (spec.namesOffset || 0) : Number(token);
+  if (!/^\w+$/.test(token) || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`Invalid ${spec.name} value: ${token}`);
+  }
+  return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in ${spec.name} field: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new Error(`Invalid range in ${spec.name} field: ${range}`);
+    } else {
+      start = parseValue(range, spec);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const expanded = MACROS[source.toLowerCase()] || source;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: fields[2] !== '*',
+    dowRestricted: fields[4] !== '*'
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function validateSchedule(schedule: ProcessSchedule): void {
+  const cron = parseCron(schedule.cron);
+  if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+    throw new Error(`Invalid timezone: ${schedule.timezone}`);
+  }
+  if (schedule.overlap && !['skip', 'queue', 'allow'].includes(schedule.overlap)) {
+    throw new Error(`Invalid overlap policy: ${schedule.overlap}`);
+  }
+  // Rejects expressions such as "0 0 30 2 *" that parse but can never fire
+  nextCronRun(cron, Date.now(), schedule.timezone);
+}
+
+interface ZonedParts {
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(time: number, timezone: string): ZonedParts {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23'
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: DAY_NAMES.indexOf(parts.weekday.toLowerCase())
+  };
+}
+
+function dayMatches(cron: CronExpression, parts: ZonedParts): boolean {
+  const dom = cron.daysOfMonth.has(parts.day);
+  const dow = cron.daysOfWeek.has(parts.weekday);
+  if (cron.domRestricted && cron.dowRestricted) return dom || dow;
+  if (cron.domRestricted) return dom;
+  if (cron.dowRestricted) return dow;
+  return true;
+}
+
+const MINUTE = 60 * 1000;
+// Enough to walk past a leap day and any skipped hours; expressions that never match give up here
+const MAX_ITERATIONS = 100000;
+
+// First time strictly after `after` (epoch ms) that matches the expression
+export function nextCronRun(expression: CronExpression | string, after: number, timezone: string = 'UTC'): number {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  let time = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const parts = zonedParts(time, timezone);
+    if (!cron.months.has(parts.month) || !dayMatches(cron, parts)) {
+      // Jump to the next local midnight
+      time += ((23 - parts.hour) * 60 + (60 - parts.minute)) * MINUTE;
+    } else if (!cron.hours.has(parts.hour)) {
+      time += (60 - parts.minute) * MINUTE;
+    } else if (!cron.minutes.has(parts.minute)) {
+      time += MINUTE;
+    } else {
+      return time;
+    }
+  }
+
+  throw new Error(`Cron expression "${cron.source}" never matches`);
+}
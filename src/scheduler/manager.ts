@@ -0,0 +1,333 @@
+import winston from 'winston';
+import { EventEmitter } from 'events';
+import { DatabaseManager } from '../database/manager.js';
+import { ProcessManager } from '../process/manager.js';
+import { configFromInfo } from '../process/definition.js';
+import { ProcessExit } from '../process/restart.js';
+import { parseReplicaId } from '../process/replicas.js';
+import { ProcessInfo, ProcessStatus, ScheduleOverlap } from '../types/process.js';
+import { nextCronRun } from './cron.js';
+
+export type ScheduleRunStatus = 'running' | 'succeeded' | 'failed' | 'stopped' | 'error';
+
+export interface ScheduleInfo {
+  processId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  overlap: ScheduleOverlap;
+  paused: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastRunStatus?: ScheduleRunStatus;
+  lastExitCode?: number;
+  runCount: number;
+  queued: boolean;          // a run is waiting for the current one to finish (overlap: queue)
+  running: string[];        // ids of the live processes started by this schedule
+}
+
+export interface ScheduleRunResult {
+  processId: string;
+  outcome: 'started' | 'queued' | 'skipped';
+  instanceId?: string;      // process that was started (differs from processId for overlap: allow)
+}
+
+interface ScheduleRow {
+  process_id: string;
+  paused: number;
+  next_run_at: number | null;
+  last_run_at: number | null;
+  last_run_status: ScheduleRunStatus | null;
+  last_exit_code: number | null;
+  run_count: number;
+}
+
+interface ScheduleState {
+  paused: boolean;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastRunStatus?: ScheduleRunStatus;
+  lastExitCode?: number;
+  runCount: number;
+  queued: boolean;
+}
+
+const TICK_MS = 1000;
+
+// Parallel instances started under overlap "allow" are ordinary processes named after their schedule
+export const instanceId = (processId: string, n: number): string => `${processId}~${n}`;
+
+export class SchedulerManager extends EventEmitter {
+  private database: DatabaseManager;
+  private processManager: ProcessManager;
+  private logger: winston.Logger;
+  private schedules: Map<string, ScheduleState>;
+  private instances: Map<string, string>; // instance process id -> scheduled process id
+  private timer?: NodeJS.Timeout;
+  private onDefined = (info: ProcessInfo) => this.syncSchedule(info);
+  private onExited = (processId: string, exit: ProcessExit) => this.recordExit(processId, exit);
+  private onDeleted = (processId: string) => this.removeSchedule(processId);
+
+  constructor(database: DatabaseManager, processManager: ProcessManager, logger: winston.Logger) {
+    super();
+    this.database = database;
+    this.processManager = processManager;
+    this.logger = logger;
+    this.schedules = new Map();
+    this.instances = new Map();
+  }
+
+  // Pick up persisted schedules and start firing them. Runs missed while the server was down are not caught up.
+  start(): void {
+    const rows = this.database.getDb().prepare('SELECT * FROM schedules').all() as ScheduleRow[];
+    const persisted = new Map(rows.map(row => [row.process_id, row]));
+
+    for (const info of this.processManager.listProcesses()) {
+      if (!info.schedule) continue;
+      const row = persisted.get(info.id);
+      this.schedules.set(info.id, {
+        paused: !!row?.paused,
+        lastRunAt: row?.last_run_at ?? undefined,
+        lastRunStatus: row?.last_run_status ?? undefined,
+        lastExitCode: row?.last_exit_code ?? undefined,
+        runCount: row?.run_count ?? 0,
+        queued: false
+      });
+      this.computeNextRun(info);
+    }
+
+    // Re-link parallel instances persisted by earlier runs
+    for (const info of this.processManager.listProcesses()) {
+      const owner = parseReplicaId(info.id)?.ownerId;
+      if (owner && this.schedules.has(owner)) this.instances.set(info.id, owner);
+    }
+
+    // Definitions that lost their schedule while the server was down
+    for (const processId of persisted.keys()) {
+      if (!this.schedules.has(processId)) this.database.getStatement('deleteSchedule').run(processId);
+    }
+
+    this.processManager.on('processDefined', this.onDefined);
+    this.processManager.on('processExited', this.onExited);
+    this.processManager.on('processDeleted', this.onDeleted);
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.logger.info(`Scheduler started with ${this.schedules.size} schedules`);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.processManager.off('processDefined', this.onDefined);
+    this.processManager.off('processExited', this.onExited);
+    this.processManager.off('processDeleted', this.onDeleted);
+  }
+
+  listSchedules(): ScheduleInfo[] {
+    const schedules: ScheduleInfo[] = [];
+    for (const info of this.processManager.listProcesses()) {
+      const state = this.schedules.get(info.id);
+      if (state && info.schedule) schedules.push(this.describe(info, state));
+    }
+    return schedules;
+  }
+
+  getSchedule(processId: string): ScheduleInfo {
+    const info = this.scheduledProcess(processId);
+    return this.describe(info, this.schedules.get(processId)!);
+  }
+
+  // Run now, outside the schedule. Works while paused; the overlap policy still applies.
+  async trigger(processId: string): Promise<ScheduleRunResult> {
+    this.scheduledProcess(processId);
+    return this.launch(processId);
+  }
+
+  pause(processId: string): ScheduleInfo {
+    this.scheduledProcess(processId);
+    const state = this.schedules.get(processId)!;
+    state.paused = true;
+    state.queued = false;
+    this.persist(processId);
+    this.logger.info(`Paused schedule for process ${processId}`);
+    return this.getSchedule(processId);
+  }
+
+  resume(processId: string): ScheduleInfo {
+    const info = this.scheduledProcess(processId);
+    this.schedules.get(processId)!.paused = false;
+    // Resuming doesn't fire the runs that were skipped while paused
+    this.computeNextRun(info);
+    this.logger.info(`Resumed schedule for process ${processId}`);
+    return this.getSchedule(processId);
+  }
+
+  private scheduledProcess(processId: string): ProcessInfo {
+    const info = this.processManager.listProcesses().find(p => p.id === processId);
+    if (!info) throw new Error(`Process ${processId} not found`);
+    if (!info.schedule || !this.schedules.has(processId)) throw new Error(`Process ${processId} has no schedule`);
+    return info;
+  }
+
+  private describe(info: ProcessInfo, state: ScheduleState): ScheduleInfo {
+    return {
+      processId: info.id,
+      name: info.name,
+      cron: info.schedule!.cron,
+      timezone: info.schedule!.timezone || 'UTC',
+      overlap: info.schedule!.overlap || 'skip',
+      paused: state.paused,
+      nextRunAt: state.paused ? undefined : state.nextRunAt,
+      lastRunAt: state.lastRunAt,
+      lastRunStatus: state.lastRunStatus,
+      lastExitCode: state.lastExitCode,
+      runCount: state.runCount,
+      queued: state.queued,
+      running: this.liveRuns(info.id)
+    };
+  }
+
+  private syncSchedule(info: ProcessInfo): void {
+    if (this.instances.has(info.id)) return;
+
+    if (!info.schedule) {
+      this.removeSchedule(info.id);
+      return;
+    }
+
+    if (!this.schedules.has(info.id)) {
+      this.schedules.set(info.id, { paused: false, runCount: 0, queued: false });
+    }
+    this.computeNextRun(info);
+  }
+
+  private removeSchedule(processId: string): void {
+    this.instances.delete(processId);
+    if (this.schedules.delete(processId)) {
+      this.database.getStatement('deleteSchedule').run(processId);
+      this.logger.info(`Removed schedule for process ${processId}`);
+    }
+  }
+
+  private computeNextRun(info: ProcessInfo): void {
+    const state = this.schedules.get(info.id)!;
+    try {
+      state.nextRunAt = nextCronRun(info.schedule!.cron, Date.now(), info.schedule!.timezone);
+    } catch (error) {
+      state.nextRunAt = undefined;
+      this.logger.error(`Invalid schedule for process ${info.id}:`, error);
+    }
+    this.persist(info.id);
+  }
+
+  private persist(processId: string): void {
+    const state = this.schedules.get(processId);
+    if (!state) return;
+    this.database.getStatement('upsertSchedule').run({
+      process_id: processId,
+      paused: state.paused ? 1 : 0,
+      next_run_at: state.nextRunAt ?? null,
+      last_run_at: state.lastRunAt ?? null,
+      last_run_status: state.lastRunStatus ?? null,
+      last_exit_code: state.lastExitCode ?? null,
+      run_count: state.runCount
+    });
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const processes = new Map(this.processManager.listProcesses().map(p => [p.id, p]));
+
+    for (const [processId, state] of this.schedules) {
+      const info = processes.get(processId);
+      if (!info?.schedule || state.paused) continue;
+
+      if (state.queued && this.liveRuns(processId).length === 0) {
+        state.queued = false;
+        this.fire(processId);
+      }
+
+      if (state.nextRunAt !== undefined && state.nextRunAt <= now) {
+        // Advance first so a slow or failing run never fires twice for the same slot
+        this.computeNextRun(info);
+        this.fire(processId);
+      }
+    }
+  }
+
+  private fire(processId: string): void {
+    this.launch(processId).catch(error => {
+      this.logger.error(`Scheduled run of process ${processId} failed:`, error);
+    });
+  }
+
+  private liveRuns(processId: string): string[] {
+    return this.processManager.listProcesses()
+      .filter(p => p.id === processId || this.instances.get(p.id) === processId)
+      .filter(p => p.status === ProcessStatus.RUNNING || p.status === ProcessStatus.STARTING || p.status === ProcessStatus.PAUSED)
+      .map(p => p.id);
+  }
+
+  private async launch(processId: string): Promise<ScheduleRunResult> {
+    const info = this.scheduledProcess(processId);
+    const state = this.schedules.get(processId)!;
+    const overlap = info.schedule!.overlap || 'skip';
+    const running = this.liveRuns(processId);
+
+    let target = info;
+    if (running.length > 0) {
+      if (overlap === 'skip') {
+        this.logger.info(`Skipping scheduled run of ${info.name}: previous run still active`);
+        this.emit('runSkipped', processId);
+        return { processId, outcome: 'skipped' };
+      }
+      if (overlap === 'queue') {
+        state.queued = true;
+        this.logger.info(`Queued scheduled run of ${info.name} behind the active run`);
+        return { processId, outcome: 'queued' };
+      }
+      target = this.spareInstance(info);
+    }
+
+    state.lastRunAt = Date.now();
+    state.runCount++;
+    state.lastRunStatus = 'running';
+    state.lastExitCode = undefined;
+    this.persist(processId);
+
+    try {
+      const started = await this.processManager.startProcess(configFromInfo(target));
+      this.logger.info(`Started scheduled run of ${info.name} (${started.id})`);
+      this.emit('runStarted', processId, started);
+      return { processId, outcome: 'started', instanceId: started.id };
+    } catch (error) {
+      state.lastRunStatus = 'error';
+      this.persist(processId);
+      throw error;
+    }
+  }
+
+  // First instance slot that is free, creating a new one past the last known instance
+  private spareInstance(info: ProcessInfo): ProcessInfo {
+    const processes = new Map(this.processManager.listProcesses().map(p => [p.id, p]));
+    for (let n = 1; ; n++) {
+      const id = instanceId(info.id, n);
+      const existing = processes.get(id);
+      if (existing && (existing.status === ProcessStatus.RUNNING || existing.status === ProcessStatus.STARTING || existing.status === ProcessStatus.PAUSED)) continue;
+
+      this.instances.set(id, info.id);
+      // Instances copy the definition but are never scheduled themselves
+      return { ...info, id, name: `${info.name}#${n}`, schedule: undefined, startOnBoot: false, groupId: undefined };
+    }
+  }
+
+  private recordExit(processId: string, exit: ProcessExit): void {
+    const scheduledId = this.instances.get(processId) ?? processId;
+    const state = this.schedules.get(scheduledId);
+    if (!state) return;
+
+    state.lastExitCode = exit.code ?? undefined;
+    state.lastRunStatus = exit.requested ? 'stopped' : exit.code === 0 ? 'succeeded' : 'failed';
+    this.persist(scheduledId);
+    this.emit('runFinished', scheduledId, exit);
+  }
+}
@@ -1,17 +1,26 @@
 import { z } from 'zod';
 import type winston from 'winston';
 import { registerTool } from './registry.js';
-import { readProcessesConfig } from '../config/loader.js';
+import { readProcessesConfig, resolveConfigPath } from '../config/loader.js';
+import { ProcessManager } from '../process/manager.js';
 
 const ReadConfigSchema = z.object({ path: z.string().optional() });
 
-export function registerConfigTools(_logger: winston.Logger) {
+export function registerConfigTools(pm: ProcessManager, _logger: winston.Logger) {
   registerTool({
     name: 'config/read',
     description: 'Read and validate processes.config.json from the current directory (or path)',
     schema: ReadConfigSchema,
     handler: async (args: any) => {
       const cwd = process.cwd();
+      try {
+        pm.assertPathAllowed(resolveConfigPath(cwd, args.path), 'Config file');
+      } catch (error) {
+        return {
+          content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+          isError: true
+        };
+      }
       const { config, issues } = readProcessesConfig(cwd, args.path || 'processes.config.json');
       const ok = !!config && (!issues || issues.length === 0);
       return {
@@ -1,10 +1,14 @@
 import { z } from 'zod';
 import type winston from 'winston';
 import { ErrorManager } from '../errors/manager.js';
+import { ProcessManager } from '../process/manager.js';
+import { CrashReport } from '../types/process.js';
+import { formatDuration } from '../utils/duration.js';
 import { registerTool } from './registry.js';
 
 const GetErrorsSchema = z.object({
   processId: z.string().optional(),
+  selector: z.string().min(1).optional(), // label selector, e.g. "tier=backend"
   errorType: z.string().optional(),
   resolved: z.boolean().optional(),
   startTime: z.number().optional(),
@@ -23,8 +27,38 @@ const MarkErrorResolvedSchema = z.object({
   resolution: z.string().optional()
 });
 
+const GetCrashReportSchema = z.object({
+  processId: z.string().min(1).optional(),    // latest reports of this process
+  errorId: z.number().int().min(1).optional(), // report linked to a "Crash" error
+  reportId: z.number().int().min(1).optional(),
+  limit: z.number().int().min(1).max(50).default(1)
+}).refine(
+  args => [args.processId, args.errorId, args.reportId].filter(value => value !== undefined).length === 1,
+  'Pass one of processId, errorId or reportId'
+);
+
+// Lines of stderr quoted in the text summary; the JSON carries the full output tail
+const SUMMARY_STDERR_LINES = 5;
+
+function describeCrash(report: CrashReport): string {
+  const lines = [
+    `Crash report ${report.id} for ${report.processId} at ${new Date(report.createdAt).toISOString()}: ${report.explanation}`,
+    `Uptime: ${formatDuration(report.uptimeMs)}, restarts: ${report.restartCount}`
+  ];
+  const { memory, cpu } = report.metrics;
+  if (memory && cpu) {
+    lines.push(`Memory: ${(memory.firstBytes / 1024 / 1024).toFixed(2)} MB -> ${(memory.lastBytes / 1024 / 1024).toFixed(2)} MB (peak ${(memory.peakBytes / 1024 / 1024).toFixed(2)} MB), CPU: ${cpu.lastPercent.toFixed(2)}% last, ${cpu.averagePercent.toFixed(2)}% avg`);
+  }
+  const stderr = report.output.filter(line => line.type === 'stderr').slice(-SUMMARY_STDERR_LINES);
+  if (stderr.length > 0) {
+    lines.push('Last stderr:', ...stderr.map(line => `  ${line.message}`));
+  }
+  return lines.join('\n');
+}
+
 export function registerErrorTools(
   errorManager: ErrorManager,
+  processManager: ProcessManager,
   logger: winston.Logger
 ): void {
   registerTool({
@@ -33,10 +67,12 @@ export function registerErrorTools(
     schema: GetErrorsSchema,
     handler: async (args: any) => {
       try {
-        const errors = await errorManager.getErrors(args);
+        const { selector, ...filter } = args;
+        const processIds = selector ? processManager.listProcesses({ selector }).map(p => p.id) : undefined;
+        const errors = await errorManager.getErrors({ ...filter, processIds });
 
         const summary = await errorManager.getErrorSummary(
-          args.processId,
+          processIds ?? args.processId,
           args.startTime ? Date.now() - args.startTime : undefined
         );
 
@@ -138,4 +174,46 @@ export function registerErrorTools(
       }
     },
   });
+
+  registerTool({
+    name: 'get_crash_report',
+    description: 'Get the postmortem of an abnormal exit: last output lines, final CPU/memory samples, decoded exit code or signal, uptime and restart count',
+    schema: GetCrashReportSchema,
+    handler: async (args: any) => {
+      try {
+        let reports: CrashReport[];
+        if (args.processId) {
+          reports = processManager.getCrashReports(args.processId, args.limit);
+        } else {
+          const report = processManager.getCrashReport({ reportId: args.reportId, errorId: args.errorId });
+          if (!report) {
+            throw new Error(args.reportId !== undefined ? `Crash report ${args.reportId} not found` : `No crash report linked to error ${args.errorId}`);
+          }
+          reports = [report];
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: reports.length > 0 ? reports.map(describeCrash).join('\n\n') : `No crash reports for process ${args.processId}`
+            },
+            {
+              type: 'text',
+              text: JSON.stringify({ reports }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to get crash report:', error);
+        return {
+          content: [{
+            type: 'text',
+            text: `Failed to get crash report: ${error instanceof Error ? error.message : String(error)}`
+          }],
+          isError: true
+        };
+      }
+    },
+  });
 }
\ No newline at end of file
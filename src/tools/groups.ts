@@ -145,7 +145,7 @@ export function registerGroupTools(
     schema: StopGroupSchema,
     handler: async (args: any) => {
       try {
-        await groupManager.stopGroup(args.groupId, {
+        const results = await groupManager.stopGroup(args.groupId, {
           stopStrategy: args.stopStrategy,
           force: args.force
         });
@@ -158,7 +158,7 @@ export function registerGroupTools(
             },
             {
               type: 'text',
-              text: JSON.stringify({ groupId: args.groupId, action: 'stopped', stopStrategy: args.stopStrategy || 'reverse', force: !!args.force }, null, 2)
+              text: JSON.stringify({ groupId: args.groupId, action: 'stopped', stopStrategy: args.stopStrategy || 'reverse', force: !!args.force, results }, null, 2)
             }
           ]
         };
@@ -5,6 +5,7 @@ import { HealthCheckService } from '../monitoring/health.js';
 import { LogManager } from '../logs/manager.js';
 import { ErrorManager } from '../errors/manager.js';
 import { GroupManager } from '../groups/manager.js';
+import { SchedulerManager } from '../scheduler/manager.js';
 import { registerLifecycleTools } from './lifecycle.js';
 import { registerMonitoringTools } from './monitoring.js';
 import { registerLogTools } from './logs.js';
@@ -16,6 +17,11 @@ import { registerConfigTools } from './config.js';
 import { registerDevStackTools } from './devstack.js';
 import { registerAnalysisTools } from './analyze.js';
 import { registerReloadTools } from './reload.js';
+import { registerSchedulerTools } from './scheduler.js';
+import { registerSimpleTools } from './simple.js';
+
+// simple: the five name-based tools only; full: the id-based tools only; both: everything
+export type ToolSurface = 'simple' | 'full' | 'both';
 
 export function registerTools(
   processManager: ProcessManager,
@@ -24,17 +30,25 @@ export function registerTools(
   logManager: LogManager,
   errorManager: ErrorManager,
   groupManager: GroupManager,
-  logger: winston.Logger
+  schedulerManager: SchedulerManager,
+  logger: winston.Logger,
+  surface: ToolSurface = 'both'
 ): void {
+  if (surface !== 'full') {
+    registerSimpleTools(processManager, logManager, logger);
+  }
+  if (surface === 'simple') return;
+
   registerLifecycleTools(processManager, logger);
   registerMonitoringTools(processManager, statsCollector, healthCheckService, logger);
-  registerLogTools(logManager, logger);
-  registerErrorTools(errorManager, logger);
+  registerLogTools(logManager, processManager, logger);
+  registerErrorTools(errorManager, processManager, logger);
   registerGroupTools(groupManager, logger);
   registerTemplateTools(logger);
   registerAdvisorTools(logger);
-  registerConfigTools(logger);
+  registerConfigTools(processManager, logger);
   registerDevStackTools(processManager, groupManager, logger);
   registerAnalysisTools(logManager, healthCheckService, logger);
   registerReloadTools(processManager, groupManager, logger);
+  registerSchedulerTools(schedulerManager, logger);
 }
\ No newline at end of file
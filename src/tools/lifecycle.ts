@@ -1,51 +1,177 @@
 import { z } from 'zod';
 import winston from 'winston';
 import { ProcessManager } from '../process/manager.js';
-import { ProcessStatus } from '../types/process.js';
+import { ProcessInfo, ProcessStatus } from '../types/process.js';
+import { HooksSchema, LabelsSchema, ReadinessSchema, ResourceLimitsSchema, RestartPolicySchema, ScheduleSchema, ReplicaConfigSchema, StopConfigSchema, TimeoutConfigSchema, WatchSchema } from '../config/loader.js';
+import { findByName } from './simple.js';
 import { registerTool } from './registry.js';
 
 const StartProcessSchema = z.object({
   name: z.string().min(1),
   command: z.string().min(1),
   args: z.array(z.string()).optional(),
+  shell: z.boolean().optional(),
   env: z.record(z.string()).optional(),
   envFiles: z.array(z.string()).optional(),
   envProfile: z.string().optional(),
   cwd: z.string().optional(),
   autoRestart: z.boolean().optional(),
+  restartPolicy: RestartPolicySchema.optional(),
+  startOnBoot: z.boolean().optional(),
+  detached: z.boolean().optional(),
+  interactive: z.boolean().optional(),
+  ...StopConfigSchema,
+  readiness: ReadinessSchema.optional(),
+  resourceLimits: ResourceLimitsSchema.optional(),
+  schedule: ScheduleSchema.optional(),
+  hooks: HooksSchema.optional(),
+  ...TimeoutConfigSchema,
+  watch: WatchSchema.optional(),
+  labels: LabelsSchema.optional(),
+  ...ReplicaConfigSchema,
+  waitForReady: z.boolean().optional(),
   healthCheckCommand: z.string().optional(),
   healthCheckInterval: z.number().min(1000).optional(),
   groupId: z.string().optional()
 });
 
+const RunTaskSchema = z.object({
+  name: z.string().min(1).optional(),
+  command: z.string().min(1),
+  args: z.array(z.string()).optional(),
+  shell: z.boolean().optional(),
+  env: z.record(z.string()).optional(),
+  envFiles: z.array(z.string()).optional(),
+  envProfile: z.string().optional(),
+  cwd: z.string().optional(),
+  timeoutMs: z.number().min(0).optional(),
+  detach: z.boolean().optional(),
+  headLines: z.number().int().min(0).optional(),
+  tailLines: z.number().int().min(0).optional(),
+  groupId: z.string().optional()
+});
+
+// Bulk tools take either one processId or a label selector such as "tier=backend,project!=legacy"
+const targetRequired = (args: { processId?: string; selector?: string }) => !!args.processId !== !!args.selector;
+const TARGET_MESSAGE = 'Pass either processId or selector';
+
 const StopProcessSchema = z.object({
-  processId: z.string().min(1),
+  processId: z.string().min(1).optional(),
+  selector: z.string().min(1).optional(),
   force: z.boolean().optional()
+}).refine(targetRequired, TARGET_MESSAGE);
+
+// Definition fields that can be changed on an existing process
+const ProcessChangesSchema = z.object({
+  name: z.string().optional(),
+  command: z.string().optional(),
+  args: z.array(z.string()).optional(),
+  shell: z.boolean().optional(),
+  env: z.record(z.string()).optional(),
+  envFiles: z.array(z.string()).optional(),
+  envProfile: z.string().optional(),
+  cwd: z.string().optional(),
+  autoRestart: z.boolean().optional(),
+  restartPolicy: RestartPolicySchema.optional(),
+  startOnBoot: z.boolean().optional(),
+  ...StopConfigSchema,
+  readiness: ReadinessSchema.optional(),
+  resourceLimits: ResourceLimitsSchema.optional(),
+  schedule: ScheduleSchema.optional(),
+  hooks: HooksSchema.optional(),
+  ...TimeoutConfigSchema,
+  watch: WatchSchema.optional(),
+  labels: LabelsSchema.optional(),
+  ...ReplicaConfigSchema,
+  healthCheckCommand: z.string().optional(),
+  healthCheckInterval: z.number().optional()
 });
 
 const RestartProcessSchema = z.object({
+  processId: z.string().min(1).optional(),
+  selector: z.string().min(1).optional(),
+  newConfig: ProcessChangesSchema.optional()
+}).refine(targetRequired, TARGET_MESSAGE);
+
+const UpdateProcessSchema = z.object({
+  processId: z.string().min(1),
+  changes: ProcessChangesSchema
+});
+
+const ScaleProcessSchema = z.object({
   processId: z.string().min(1),
-  newConfig: z.object({
-    name: z.string().optional(),
-    command: z.string().optional(),
-    args: z.array(z.string()).optional(),
-    env: z.record(z.string()).optional(),
-    cwd: z.string().optional(),
-    autoRestart: z.boolean().optional(),
-    healthCheckCommand: z.string().optional(),
-    healthCheckInterval: z.number().optional()
-  }).optional()
+  instances: z.number().int().min(1)
+});
+
+const DeleteProcessSchema = z.object({
+  processId: z.string().min(1),
+  force: z.boolean().optional(),
+  purge: z.boolean().optional()
 });
 
 const KillProcessSchema = z.object({
   processId: z.string().min(1)
 });
 
+const SignalProcessSchema = z.object({
+  processId: z.string().min(1),
+  signal: z.string().regex(/^SIG[A-Z0-9]+$/, 'Expected a signal name such as SIGHUP'),
+  scope: z.enum(['group', 'process']).default('group')
+});
+
+const PauseProcessSchema = z.object({
+  processId: z.string().min(1)
+});
+
+const SendInputSchema = z.object({
+  processId: z.string().min(1),
+  text: z.string().optional(),
+  newline: z.boolean().optional(),
+  bytes: z.string().optional(),
+  keys: z.array(z.string()).optional(),
+  eof: z.boolean().optional()
+});
+
 const ListProcessesSchema = z.object({
   status: z.nativeEnum(ProcessStatus).optional(),
-  groupId: z.string().optional()
+  groupId: z.string().optional(),
+  selector: z.string().min(1).optional()
 });
 
+interface TargetResult {
+  processId: string;
+  name: string;
+  ok: boolean;
+  error?: string;
+}
+
+// Apply an action to each selected process in turn; one failure doesn't stop the rest
+async function forEachTarget<T extends object>(targets: ProcessInfo[], action: (info: ProcessInfo) => Promise<T>): Promise<Array<TargetResult & Partial<T>>> {
+  const results: Array<TargetResult & Partial<T>> = [];
+  for (const info of targets) {
+    try {
+      results.push({ processId: info.id, name: info.name, ok: true, ...(await action(info)) });
+    } catch (error) {
+      results.push({ processId: info.id, name: info.name, ok: false, error: error instanceof Error ? error.message : String(error) } as TargetResult & Partial<T>);
+    }
+  }
+  return results;
+}
+
+function bulkResponse(verb: string, selector: string, results: TargetResult[]) {
+  const failed = results.filter(r => !r.ok);
+  const summary = results.length === 0
+    ? `No processes match "${selector}"`
+    : `${verb} ${results.length - failed.length} of ${results.length} process(es) matching "${selector}"${failed.length > 0 ? `; failed: ${failed.map(r => `${r.name} (${r.error || 'see result'})`).join(', ')}` : ''}`;
+  return {
+    content: [
+      { type: 'text', text: summary },
+      { type: 'text', text: JSON.stringify({ selector, results }, null, 2) }
+    ],
+    ...(failed.length > 0 ? { isError: true } : {})
+  };
+}
+
 export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logger) {
   registerTool({
     name: 'start_process',
@@ -53,9 +179,28 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
     schema: StartProcessSchema,
     handler: async (args) => {
       try {
-        const p = await pm.startProcess(args);
+        const { waitForReady, ...config } = args;
+        if (config.schedule) {
+          // Scheduled processes are only defined here; the scheduler starts each run
+          const p = pm.registerProcess(config);
+          return { content: [
+            { type: 'text', text: `Scheduled process ${p.id} (${p.name}) with cron "${config.schedule.cron}"${config.schedule.timezone ? ` (${config.schedule.timezone})` : ''}` },
+            { type: 'text', text: JSON.stringify({ process: p }, null, 2) }
+          ] };
+        }
+        let p = await pm.startProcess(pm.withDefaultTimeouts(config));
+        if (waitForReady && p.readiness) {
+          p = await pm.waitForReady(p.id);
+        }
+        if (p.instances !== undefined) {
+          [p] = pm.withReplicas([p, ...pm.listReplicas(p.id)]);
+        }
         return { content: [
-          { type: 'text', text: `Started process ${p.id} (${p.name})` },
+          { type: 'text', text: p.instances !== undefined
+            ? `Started process ${p.id} (${p.name}) with ${p.instances} instances`
+            : p.timeToReadyMs !== undefined
+              ? `Started process ${p.id} (${p.name}), ready after ${p.timeToReadyMs}ms`
+              : `Started process ${p.id} (${p.name})` },
           { type: 'text', text: JSON.stringify({ process: p }, null, 2) }
         ] };
       } catch (error) {
@@ -71,6 +216,12 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
             },
             how: 'Add these to server env and restart, or wrap the command in a repo script under PWD.'
           });
+        } else if (/PM_ALLOWED_CWDS/.test(msg)) {
+          suggestions.push({
+            actionRequired: 'grant_permission',
+            envVars: { PM_ALLOWED_CWDS: 'pwd,~/projects' },
+            how: 'Add the directory (or a parent) to server env and restart, or run the process from an allowed directory.'
+          });
         } else if (/Maximum process limit reached/i.test(msg)) {
           suggestions.push({
             actionRequired: 'increase_limit',
@@ -88,16 +239,65 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
     },
   });
 
+  registerTool({
+    name: 'run_task',
+    description: 'Run a command to completion (tests, builds, migrations) and return its exit code and output',
+    schema: RunTaskSchema,
+    handler: async (args) => {
+      try {
+        const { timeoutMs, detach, headLines, tailLines, ...config } = args;
+        // Re-running the same task in the same directory reuses its stored record, like config/reload does
+        const name = config.name || [config.command, ...(config.args || [])].join(' ');
+        const existing = findByName(pm.listProcesses(), name, config.cwd ?? 'pwd');
+        const result = await pm.runTask({ ...config, id: existing?.id, name }, { timeoutMs, detach, headLines, tailLines });
+
+        const outcome = result.status === 'detached'
+          ? `still running after ${result.durationMs}ms; poll it with get_process_info or get_logs`
+          : result.status === 'timed_out'
+            ? `timed out after ${result.durationMs}ms and was stopped`
+            : result.signal
+              ? `was killed by ${result.signal} after ${result.durationMs}ms`
+              : `exited with code ${result.exitCode} after ${result.durationMs}ms`;
+        return {
+          content: [
+            { type: 'text', text: `Task ${result.processId} (${name}) ${outcome}` },
+            { type: 'text', text: JSON.stringify(result, null, 2) }
+          ],
+          ...(result.status === 'timed_out' ? { isError: true } : {})
+        };
+      } catch (error) {
+        logger.error('Failed to run task:', error);
+        return { content: [{ type: 'text', text: `Failed to run task: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
   registerTool({
     name: 'stop_process',
-    description: 'Stop a running process',
+    description: 'Stop a running process, or every running process matching a label selector',
     schema: StopProcessSchema,
     handler: async (args) => {
       try {
-        await pm.stopProcess(args.processId, args.force);
+        if (args.selector) {
+          const targets = pm.listProcesses({ selector: args.selector })
+            .filter(p => p.status === ProcessStatus.RUNNING || p.status === ProcessStatus.STARTING || p.status === ProcessStatus.PAUSED);
+          const results = await forEachTarget(targets, async p => {
+            const result = await pm.stopProcess(p.id, args.force);
+            return { ...result, ok: result.survivors.length === 0 };
+          });
+          return bulkResponse('Stopped', args.selector, results);
+        }
+
+        const result = await pm.stopProcess(args.processId, args.force);
+        if (result.survivors.length > 0) {
+          return { content: [
+            { type: 'text', text: `Process ${args.processId} stopped but ${result.survivors.length} process(es) survived: ${result.survivors.join(', ')}` },
+            { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'stopped', ...result }) }
+          ], isError: true };
+        }
         return { content: [
-          { type: 'text', text: `Stopped process ${args.processId}` },
-          { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'stopped' }) }
+          { type: 'text', text: `Stopped process ${args.processId} (${result.outcome}, ${result.signalsSent.join(' -> ') || 'no signal'}, ${result.elapsedMs}ms)` },
+          { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'stopped', ...result }) }
         ] };
       } catch (error) {
         logger.error('Failed to stop process:', error);
@@ -108,10 +308,18 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
 
   registerTool({
     name: 'restart_process',
-    description: 'Restart a process with optional new configuration',
+    description: 'Restart a process, or every process matching a label selector, with optional new configuration',
     schema: RestartProcessSchema,
     handler: async (args) => {
       try {
+        if (args.selector) {
+          const results = await forEachTarget(pm.listProcesses({ selector: args.selector }), async p => {
+            const restarted = await pm.restartProcess(p.id, args.newConfig);
+            return { status: restarted.status, pid: restarted.pid };
+          });
+          return bulkResponse('Restarted', args.selector, results);
+        }
+
         const p = await pm.restartProcess(args.processId, args.newConfig);
         return { content: [
           { type: 'text', text: `Restarted process ${p.id} (${p.name})` },
@@ -124,16 +332,77 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
     },
   });
 
+  registerTool({
+    name: 'scale_process',
+    description: 'Change how many instances of a process started with instances run; new instances start right away if it is running',
+    schema: ScaleProcessSchema,
+    handler: async (args) => {
+      try {
+        const scaled = await pm.scaleProcess(args.processId, args.instances);
+        const [p] = pm.withReplicas([scaled, ...pm.listReplicas(scaled.id)]);
+        return { content: [
+          { type: 'text', text: `Scaled process ${p.id} (${p.name}) to ${p.instances} instances (${p.status})` },
+          { type: 'text', text: JSON.stringify({ process: p }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to scale process:', error);
+        return { content: [{ type: 'text', text: `Failed to scale process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'update_process',
+    description: 'Edit the stored definition of a stopped process without starting it',
+    schema: UpdateProcessSchema,
+    handler: async (args) => {
+      try {
+        const p = pm.updateProcess(args.processId, args.changes);
+        return { content: [
+          { type: 'text', text: `Updated process ${p.id} (${p.name}); changes apply on its next start` },
+          { type: 'text', text: JSON.stringify({ process: p }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to update process:', error);
+        return { content: [{ type: 'text', text: `Failed to update process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'delete_process',
+    description: 'Remove a process definition, optionally purging its logs, metrics and errors',
+    schema: DeleteProcessSchema,
+    handler: async (args) => {
+      try {
+        const result = await pm.deleteProcess(args.processId, { force: args.force, purge: args.purge });
+        return { content: [
+          { type: 'text', text: `Deleted process ${result.processId} (${result.name})${result.stop ? ' after stopping it' : ''}${result.purged ? ', purged its logs, metrics and errors' : ''}` },
+          { type: 'text', text: JSON.stringify(result, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to delete process:', error);
+        return { content: [{ type: 'text', text: `Failed to delete process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
   registerTool({
     name: 'kill_process',
     description: 'Force kill a process immediately',
     schema: KillProcessSchema,
     handler: async (args) => {
       try {
-        await pm.killProcess(args.processId);
+        const result = await pm.killProcess(args.processId);
+        if (result.survivors.length > 0) {
+          return { content: [
+            { type: 'text', text: `Process ${args.processId} killed but ${result.survivors.length} process(es) survived: ${result.survivors.join(', ')}` },
+            { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'killed', ...result }) }
+          ], isError: true };
+        }
         return { content: [
-          { type: 'text', text: `Killed process ${args.processId}` },
-          { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'killed' }) }
+          { type: 'text', text: `Killed process ${args.processId} (${result.elapsedMs}ms)` },
+          { type: 'text', text: JSON.stringify({ processId: args.processId, action: 'killed', ...result }) }
         ] };
       } catch (error) {
         logger.error('Failed to kill process:', error);
@@ -142,13 +411,86 @@ export function registerLifecycleTools(pm: ProcessManager, logger: winston.Logge
     },
   });
 
+  registerTool({
+    name: 'signal_process',
+    description: 'Send a signal such as SIGHUP (reload config), SIGUSR1/SIGUSR2 or SIGQUIT (thread dump) to a running process without stopping it',
+    schema: SignalProcessSchema,
+    handler: async (args) => {
+      try {
+        const signalled = pm.signalProcess(args.processId, args.signal, args.scope);
+        return { content: [
+          { type: 'text', text: `Sent ${args.signal} to ${signalled.length} process(es) of ${args.processId}` },
+          { type: 'text', text: JSON.stringify({ processId: args.processId, signal: args.signal, scope: args.scope, signalled }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to signal process:', error);
+        return { content: [{ type: 'text', text: `Failed to signal process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'pause_process',
+    description: 'Freeze a running process and its children with SIGSTOP until resume_process',
+    schema: PauseProcessSchema,
+    handler: async (args) => {
+      try {
+        const info = pm.pauseProcess(args.processId);
+        return { content: [
+          { type: 'text', text: `Paused process ${info.name} (${info.id})` },
+          { type: 'text', text: JSON.stringify({ processId: info.id, status: info.status }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to pause process:', error);
+        return { content: [{ type: 'text', text: `Failed to pause process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'resume_process',
+    description: 'Continue a process paused with pause_process',
+    schema: PauseProcessSchema,
+    handler: async (args) => {
+      try {
+        const info = pm.resumeProcess(args.processId);
+        return { content: [
+          { type: 'text', text: `Resumed process ${info.name} (${info.id})` },
+          { type: 'text', text: JSON.stringify({ processId: info.id, status: info.status }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to resume process:', error);
+        return { content: [{ type: 'text', text: `Failed to resume process: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'send_input',
+    description: 'Send text, base64 bytes or named keys (Enter, Tab, Up, Ctrl-C, ...) to the stdin of an interactive process',
+    schema: SendInputSchema,
+    handler: async (args) => {
+      try {
+        const { processId, ...input } = args;
+        const bytes = await pm.sendInput(processId, input);
+        return { content: [
+          { type: 'text', text: `Sent ${bytes} bytes to process ${processId}` },
+          { type: 'text', text: JSON.stringify({ processId, bytes, eof: !!args.eof }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to send input:', error);
+        return { content: [{ type: 'text', text: `Failed to send input: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
   registerTool({
     name: 'list_processes',
     description: 'List all managed processes with optional filtering',
     schema: ListProcessesSchema,
     handler: async (args) => {
       try {
-        const res = pm.listProcesses(args);
+        const res = pm.withReplicas(pm.withEndpoints(pm.listProcesses(args)));
         return { content: [
           { type: 'text', text: `Found ${res.length} processes` },
           { type: 'text', text: JSON.stringify({ processes: res }, null, 2) }
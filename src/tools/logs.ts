@@ -1,11 +1,13 @@
 import { z } from 'zod';
 import type winston from 'winston';
 import { LogManager } from '../logs/manager.js';
-import { LogType, LogLevel } from '../types/process.js';
+import { ProcessManager } from '../process/manager.js';
+import { LogEntry, LogType, LogLevel } from '../types/process.js';
 import { registerTool } from './registry.js';
 
 const GetLogsSchema = z.object({
   processId: z.string().optional(),
+  selector: z.string().min(1).optional(), // label selector, e.g. "tier=backend"
   type: z.nativeEnum(LogType).optional(),
   level: z.nativeEnum(LogLevel).optional(),
   startTime: z.number().optional(),
@@ -35,18 +37,31 @@ const ClearLogsSchema = z.object({
 
 export function registerLogTools(
   logManager: LogManager,
+  processManager: ProcessManager,
   logger: winston.Logger
 ): void {
+  // Logs are stored per process, so query each selected process and merge newest first
+  async function getSelectedLogs(args: z.infer<typeof GetLogsSchema>): Promise<LogEntry[]> {
+    const { selector, offset, limit, ...filter } = args;
+    const processIds = processManager.listProcesses({ selector }).map(p => p.id);
+    const perProcess: LogEntry[][] = await Promise.all(
+      processIds.map(processId => logManager.getLogs({ ...filter, processId, offset: 0, limit: offset + limit }))
+    );
+    return perProcess.flat()
+      .sort((a: LogEntry, b: LogEntry) => b.timestamp - a.timestamp)
+      .slice(offset, offset + limit);
+  }
+
   registerTool({
     name: 'get_logs',
     description: 'Retrieve historical logs with flexible filtering options',
     schema: GetLogsSchema,
     handler: async (args: any) => {
       try {
-        const logs = await logManager.getLogs(args);
+        const logs = args.selector ? await getSelectedLogs(args) : await logManager.getLogs(args);
 
         const summary = logs.length > 0
-          ? `Found ${logs.length} log entries${args.processId ? ` for process ${args.processId}` : ''}`
+          ? `Found ${logs.length} log entries${args.processId ? ` for process ${args.processId}` : ''}${args.selector ? ` for processes matching "${args.selector}"` : ''}`
           : 'No logs found matching criteria';
 
         // Format logs for display
@@ -3,12 +3,19 @@ import type winston from 'winston';
 import { ProcessManager } from '../process/manager.js';
 import { StatsCollector } from '../monitoring/collector.js';
 import { HealthCheckService } from '../monitoring/health.js';
+import { summarizeRuns } from '../process/runs.js';
 import { registerTool } from './registry.js';
 
 const GetProcessInfoSchema = z.object({ processId: z.string().min(1) });
 const GetProcessStatsSchema = z.object({ processId: z.string().min(1), duration: z.number().min(0).optional() });
 const CheckProcessHealthSchema = z.object({ processId: z.string().min(1) });
 const GetSystemStatsSchema = z.object({});
+const GetProcessHistorySchema = z.object({
+  processId: z.string().min(1),
+  startTime: z.number().optional(),
+  stopReason: z.enum(['user', 'exit', 'crash', 'health', 'watchdog', 'readiness', 'hook', 'timeout', 'max_runtime', 'idle', 'watch', 'shutdown']).optional(),
+  limit: z.number().min(1).max(1000).default(100)
+});
 
 export function registerMonitoringTools(
   pm: ProcessManager,
@@ -22,12 +29,13 @@ export function registerMonitoringTools(
     schema: GetProcessInfoSchema,
     handler: async ({ processId }: any) => {
       try {
-        const p = pm.listProcesses().find((x) => x.id === processId);
-        if (!p) throw new Error(`Process ${processId} not found`);
+        const found = pm.listProcesses().find((x) => x.id === processId);
+        if (!found) throw new Error(`Process ${processId} not found`);
+        const [p] = pm.withEndpoints([found]);
         const m = (await stats.getProcessStats(processId, 60000))[0];
         return {
           content: [
-            { type: 'text', text: `Process ${p.name} (${p.id})\nStatus: ${p.status}\nPID: ${p.pid || 'N/A'}\nCPU: ${(m?.cpuUsage||0).toFixed(2)}%\nMemory: ${(((m?.memoryUsage||0)/1048576)).toFixed(2)} MB\nUptime: ${p.startedAt ? ((Date.now() - p.startedAt) / 1000 / 60).toFixed(1) + ' min' : 'N/A'}` },
+            { type: 'text', text: `Process ${p.name} (${p.id})\nStatus: ${p.status}\nPID: ${p.pid || 'N/A'}\nCPU: ${(m?.cpuUsage||0).toFixed(2)}%\nMemory: ${(((m?.memoryUsage||0)/1048576)).toFixed(2)} MB\nUptime: ${p.startedAt ? ((Date.now() - p.startedAt) / 1000 / 60).toFixed(1) + ' min' : 'N/A'}${p.ports?.length ? `\nPorts: ${p.ports.join(', ')}` : ''}${p.urls?.length ? `\nURLs: ${p.urls.join(', ')}` : ''}` },
             { type: 'text', text: JSON.stringify({ process: p, latestMetric: m || null }, null, 2) }
           ]
         };
@@ -41,12 +49,48 @@ export function registerMonitoringTools(
     },
   });
 
+  registerTool({
+    name: 'get_process_history',
+    description: 'List past runs of a process with exit codes, signals, durations and why each run ended',
+    schema: GetProcessHistorySchema,
+    handler: async ({ processId, startTime, stopReason, limit }: any) => {
+      try {
+        const runs = pm.getRunHistory(processId, { startTime, stopReason, limit });
+        const summary = summarizeRuns(runs);
+        const reasons = Object.entries(summary.byStopReason).map(([reason, count]) => `${reason}: ${count}`).join(', ');
+        return {
+          content: [
+            { type: 'text', text: `${summary.runs} runs of ${processId}${reasons ? ` (${reasons})` : ''}${summary.running ? `, ${summary.running} still running` : ''}` },
+            { type: 'text', text: JSON.stringify({ processId, summary, runs }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to get process history:', error);
+        return {
+          content: [{ type: 'text', text: `Failed to get process history: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        };
+      }
+    },
+  });
+
   registerTool({
     name: 'get_process_stats',
-    description: 'Get CPU and memory statistics for a process',
+    description: 'Get CPU and memory statistics for a process, combined across its instances if it has any',
     schema: GetProcessStatsSchema,
     handler: async ({ processId, duration }: any) => {
       try {
+        const replicas = pm.listReplicas(processId);
+        if (replicas.length > 0) {
+          const combined = await stats.getCombinedStats(replicas.map(r => r.id), duration || 3600000);
+          const a = combined.aggregated;
+          return {
+            content: [
+              { type: 'text', text: `Process stats for ${processId} (${replicas.length} instances):\nTotal avg CPU: ${a.avgCpu.toFixed(2)}%\nMax CPU of one instance: ${a.maxCpu.toFixed(2)}%\nTotal avg Memory: ${(a.avgMemory / 1024 / 1024).toFixed(2)} MB\nMax Memory of one instance: ${(a.maxMemory / 1024 / 1024).toFixed(2)} MB\nSamples: ${a.sampleCount}` },
+              { type: 'text', text: JSON.stringify({ processId, aggregated: a, instances: combined.instances }, null, 2) }
+            ]
+          };
+        }
         const aggregated = await stats.getAggregatedStats(processId, duration || 3600000);
         return {
           content: [
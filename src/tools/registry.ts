@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
+import { redactPayload } from '../utils/redact.js';
 
 interface Tool {
   name: string;
@@ -37,7 +38,9 @@ export async function callTool(name: string, args: any): Promise<{ content: Arra
 
   try {
     const validatedArgs = tool.schema.parse(args);
-    return await tool.handler(validatedArgs);
+    const result = await tool.handler(validatedArgs);
+    // Every response passes through here, so secrets can't leak from a tool that forgot to mask them
+    return { ...result, content: result.content.map(item => ({ ...item, text: redactPayload(item.text) })) };
   } catch (error) {
     return {
       content: [{ type: 'text', text: `Invalid arguments for tool '${name}': ${error instanceof Error ? error.message : String(error)}` }],
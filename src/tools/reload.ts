@@ -1,9 +1,11 @@
 import { z } from 'zod';
 import type winston from 'winston';
 import { registerTool } from './registry.js';
-import { readProcessesConfig } from '../config/loader.js';
+import { ProcessDefSchema, ProcessesConfig, readProcessesConfig, resolveConfigPath } from '../config/loader.js';
+import { DependencyPlan, planDependencies, withDependencies } from '../config/dependencies.js';
 import { ProcessManager } from '../process/manager.js';
 import { GroupManager } from '../groups/manager.js';
+import { ProcessConfig, ProcessInfo, ProcessStatus } from '../types/process.js';
 
 const ReloadSchema = z.object({
   path: z.string().optional(),
@@ -11,65 +13,274 @@ const ReloadSchema = z.object({
   dryRun: z.boolean().default(true),
 });
 
+type ProcessDef = z.infer<typeof ProcessDefSchema>;
+
+type StepStatus = 'started' | 'running' | 'scheduled' | 'stopped' | 'not_running' | 'failed' | 'skipped';
+
+interface StepResult {
+  name: string;
+  status: StepStatus;
+  processId?: string;
+  error?: string;
+}
+
+function toProcessConfig(name: string, def: ProcessDef, id?: string): ProcessConfig {
+  return {
+    id,
+    name,
+    command: def.command,
+    args: def.args,
+    shell: def.shell,
+    env: def.env,
+    envFiles: def.envFiles,
+    envProfile: def.envProfile,
+    cwd: def.cwd,
+    autoRestart: def.autoRestart,
+    restartPolicy: def.restartPolicy,
+    startOnBoot: def.startOnBoot,
+    interactive: def.interactive,
+    stopSignal: def.stopSignal,
+    stopTimeoutMs: def.stopTimeoutMs,
+    stopEscalation: def.stopEscalation,
+    readiness: def.readiness,
+    resourceLimits: def.resourceLimits,
+    schedule: def.schedule,
+    hooks: def.hooks,
+    maxRuntimeMs: def.maxRuntimeMs,
+    idleTimeoutMs: def.idleTimeoutMs,
+    watch: def.watch,
+    labels: def.labels,
+    instances: def.instances,
+    basePort: def.basePort,
+    healthCheckCommand: def.healthCheckCommand,
+    healthCheckInterval: def.healthCheckInterval,
+  };
+}
+
+function isAlive(info: ProcessInfo): boolean {
+  return info.status === ProcessStatus.RUNNING || info.status === ProcessStatus.STARTING || info.status === ProcessStatus.PAUSED;
+}
+
+function failure(text: string, hint: string, actionRequired: string = 'fix_config') {
+  return { content: [
+    { type: 'text', text },
+    { type: 'text', text: JSON.stringify({ suggestions: [{ actionRequired, hint }] }, null, 2) }
+  ], isError: true };
+}
+
+// Load the config and order it by dependsOn; a group narrows it to its members, optionally with their dependencies
+function loadPlan(pm: ProcessManager, args: { path?: string; group?: string }, includeDependencies: boolean):
+  { config: ProcessesConfig; plan: DependencyPlan; names: string[] } | { error: ReturnType<typeof failure> } {
+  try {
+    pm.assertPathAllowed(resolveConfigPath(process.cwd(), args.path), 'Config file');
+  } catch (error) {
+    return { error: failure(error instanceof Error ? error.message : String(error), 'Add the directory holding the config to PM_ALLOWED_CWDS and restart the server.', 'grant_permission') };
+  }
+  const { config, issues } = readProcessesConfig(process.cwd(), args.path || 'processes.config.json');
+  if (!config) {
+    return { error: failure(`Failed to load config: ${(issues || []).join('; ')}`, 'Ensure processes.config.json is valid JSON and matches schema.') };
+  }
+
+  let plan: DependencyPlan;
+  try {
+    plan = planDependencies(config.processes);
+  } catch (error) {
+    return { error: failure(`Invalid dependsOn: ${error instanceof Error ? error.message : String(error)}`, 'Every dependsOn entry must name another process, without cycles.') };
+  }
+
+  if (!args.group) return { config, plan, names: plan.order };
+  const members = config.groups?.[args.group];
+  if (!members) {
+    return { error: failure(`Group '${args.group}' not found in config`, `Add "${args.group}" to the groups section or omit group.`) };
+  }
+  const selected = includeDependencies ? withDependencies(plan, members) : new Set(members);
+  return { config, plan, names: plan.order.filter(name => selected.has(name)) };
+}
+
+function stageOf(plan: DependencyPlan, name: string): number {
+  return plan.stages.findIndex(stage => stage.includes(name));
+}
+
+function summarize(results: StepResult[]): string {
+  const counts: Partial<Record<StepStatus, number>> = {};
+  for (const result of results) counts[result.status] = (counts[result.status] || 0) + 1;
+  return Object.entries(counts).map(([status, count]) => `${count} ${status}`).join(', ');
+}
+
 export function registerReloadTools(pm: ProcessManager, gm: GroupManager, logger: winston.Logger) {
+  // Dependents only start once their dependency passed its readiness check (or health check, when it has no readiness)
+  async function waitUntilServing(info: ProcessInfo): Promise<void> {
+    if (info.readiness) await pm.waitForReady(info.id);
+    else if (info.healthCheckCommand) await pm.waitForHealthy(info.id);
+  }
+
+  // Each process starts as soon as all of its dependencies are serving, so independent branches run in parallel
+  async function applyPlan(config: ProcessesConfig, plan: DependencyPlan, names: string[]): Promise<StepResult[]> {
+    const results = new Map<string, StepResult>();
+    const steps = new Map<string, Promise<boolean>>();
+
+    const ensure = (name: string): Promise<boolean> => {
+      let step = steps.get(name);
+      if (!step) {
+        step = (async () => {
+          const failedDeps = (await Promise.all(plan.dependsOn[name].map(async dep => (await ensure(dep)) ? null : dep)))
+            .filter((dep): dep is string => dep !== null);
+          if (failedDeps.length > 0) {
+            results.set(name, { name, status: 'skipped', error: `dependency ${failedDeps.join(', ')} did not start` });
+            return false;
+          }
+
+          const def = config.processes[name];
+          // Reuse definitions persisted by earlier reloads
+          const existing = pm.listProcesses().find(p => p.name === name);
+          try {
+            let info: ProcessInfo;
+            let status: StepStatus;
+            if (existing && isAlive(existing)) {
+              info = existing;
+              status = 'running';
+            } else if (def.schedule) {
+              // Scheduled processes are left for the scheduler to run
+              info = pm.registerProcess(toProcessConfig(name, def, existing?.id));
+              status = 'scheduled';
+            } else {
+              info = await pm.startProcess(toProcessConfig(name, def, existing?.id));
+              status = 'started';
+            }
+
+            if (!def.schedule && plan.dependents[name].some(dependent => names.includes(dependent))) {
+              await waitUntilServing(info);
+            }
+            results.set(name, { name, status, processId: info.id });
+            return true;
+          } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            logger.warn(`Process '${name}' start failed: ${error}`);
+            results.set(name, { name, status: 'failed', processId: existing?.id, error });
+            return false;
+          }
+        })();
+        steps.set(name, step);
+      }
+      return step;
+    };
+
+    await Promise.all(names.map(ensure));
+    return names.map(name => results.get(name)!);
+  }
+
+  // Mirror of applyPlan: a process stops only after everything that depends on it has stopped
+  async function stopPlan(plan: DependencyPlan, names: string[]): Promise<StepResult[]> {
+    const results = new Map<string, StepResult>();
+    const steps = new Map<string, Promise<void>>();
+
+    const stop = (name: string): Promise<void> => {
+      let step = steps.get(name);
+      if (!step) {
+        step = (async () => {
+          await Promise.all(plan.dependents[name].filter(dependent => names.includes(dependent)).map(stop));
+          const info = pm.listProcesses().find(p => p.name === name);
+          if (!info || !isAlive(info)) {
+            results.set(name, { name, status: 'not_running', processId: info?.id });
+            return;
+          }
+          try {
+            const result = await pm.stopProcess(info.id);
+            results.set(name, result.survivors.length > 0
+              ? { name, status: 'failed', processId: info.id, error: `survivors: ${result.survivors.join(', ')}` }
+              : { name, status: 'stopped', processId: info.id });
+          } catch (e) {
+            const error = e instanceof Error ? e.message : String(e);
+            logger.warn(`Process '${name}' stop failed: ${error}`);
+            results.set(name, { name, status: 'failed', processId: info.id, error });
+          }
+        })();
+        steps.set(name, step);
+      }
+      return step;
+    };
+
+    await Promise.all(names.map(stop));
+    return [...names].reverse().map(name => results.get(name)!);
+  }
+
   registerTool({
     name: 'config/reload',
-    description: 'Apply desired state from processes.config.json (dry-run by default)',
+    description: 'Apply desired state from processes.config.json in dependsOn order (dry-run by default)',
     schema: ReloadSchema,
     handler: async (args: any) => {
-      const { config, issues } = readProcessesConfig(process.cwd(), args.path || 'processes.config.json');
-      if (!config) {
-        const details = (issues||[]).join('; ');
-        return { content: [
-          { type: 'text', text: `Failed to load config: ${details}` },
-          { type: 'text', text: JSON.stringify({ suggestions: [{ actionRequired: 'fix_config', hint: 'Ensure processes.config.json is valid JSON and matches schema.' }] }, null, 2) }
-        ], isError: true };
-      }
-
-      const actions: any[] = [];
+      const loaded = loadPlan(pm, args, true);
+      if ('error' in loaded) return loaded.error;
+      const { config, plan, names } = loaded;
 
-      // Ensure processes exist in DB and are started
-      for (const [name, def] of Object.entries(config.processes)) {
-        actions.push({ type: 'ensureProcess', name, def });
-      }
+      const actions: any[] = names.map(name => ({
+        type: config.processes[name].schedule ? 'scheduleProcess' : 'ensureProcess',
+        name,
+        stage: stageOf(plan, name),
+        dependsOn: plan.dependsOn[name],
+        def: config.processes[name]
+      }));
 
       // Start a group if requested
       if (args.group && config.groups?.[args.group]) {
         actions.push({ type: 'startGroup', group: args.group, members: config.groups[args.group] });
       }
 
-      if (!args.dryRun) {
-        // Materialize processes
-        for (const [name, def] of Object.entries(config.processes)) {
-          try {
-            await pm.startProcess({
-              name,
-              command: def.command,
-              args: def.args,
-              env: def.env,
-              envFiles: def.envFiles,
-              envProfile: def.envProfile,
-              cwd: def.cwd,
-              autoRestart: def.autoRestart,
-              healthCheckCommand: def.healthCheckCommand,
-              healthCheckInterval: def.healthCheckInterval,
-            });
-          } catch (e) {
-            logger.warn(`Process '${name}' start failed: ${e instanceof Error ? e.message : String(e)}`);
-          }
-        }
-        if (args.group && config.groups?.[args.group]) {
-          const groups = gm.listGroups();
-          const target = groups.find(g => g.name === args.group);
-          if (target) await gm.startGroup(target.id, { skipRunning: true });
-        }
+      const stages = plan.stages.map(stage => stage.filter(name => names.includes(name))).filter(stage => stage.length > 0);
+      if (args.dryRun) {
+        return {
+          content: [
+            { type: 'text', text: `Planned ${actions.length} actions in ${stages.length} stage(s): ${stages.map(stage => stage.join(' + ')).join(' -> ')}` },
+            { type: 'text', text: JSON.stringify({ dryRun: true, stages, actions }, null, 2) }
+          ]
+        };
+      }
+
+      const results = await applyPlan(config, plan, names);
+      if (args.group && config.groups?.[args.group]) {
+        const target = gm.listGroups().find(g => g.name === args.group);
+        if (target) await gm.startGroup(target.id, { skipRunning: true });
+      }
+
+      const failed = results.filter(r => r.status === 'failed' || r.status === 'skipped');
+      return {
+        content: [
+          { type: 'text', text: `Applied ${actions.length} actions: ${summarize(results)}` },
+          { type: 'text', text: JSON.stringify({ dryRun: false, stages, actions, results }, null, 2) }
+        ],
+        ...(failed.length > 0 ? { isError: true } : {})
+      };
+    }
+  });
+
+  registerTool({
+    name: 'config/stop',
+    description: 'Stop the processes of processes.config.json, dependents before their dependencies (dry-run by default)',
+    schema: ReloadSchema,
+    handler: async (args: any) => {
+      // Shared dependencies of a group stay up for the rest of the stack
+      const loaded = loadPlan(pm, args, false);
+      if ('error' in loaded) return loaded.error;
+      const { plan, names } = loaded;
+
+      const stages = [...plan.stages].reverse().map(stage => stage.filter(name => names.includes(name))).filter(stage => stage.length > 0);
+      if (args.dryRun) {
+        return {
+          content: [
+            { type: 'text', text: `Planned stop of ${names.length} process(es) in ${stages.length} stage(s): ${stages.map(stage => stage.join(' + ')).join(' -> ')}` },
+            { type: 'text', text: JSON.stringify({ dryRun: true, stages }, null, 2) }
+          ]
+        };
       }
 
+      const results = await stopPlan(plan, names);
+      const failed = results.filter(r => r.status === 'failed');
       return {
         content: [
-          { type: 'text', text: `${args.dryRun ? 'Planned' : 'Applied'} ${actions.length} actions` },
-          { type: 'text', text: JSON.stringify({ dryRun: args.dryRun, actions }, null, 2) }
-        ]
+          { type: 'text', text: `Stopped ${names.length} process(es): ${summarize(results)}` },
+          { type: 'text', text: JSON.stringify({ dryRun: false, stages, results }, null, 2) }
+        ],
+        ...(failed.length > 0 ? { isError: true } : {})
       };
     }
   });
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+import type winston from 'winston';
+import { SchedulerManager } from '../scheduler/manager.js';
+import { registerTool } from './registry.js';
+
+const ListSchedulesSchema = z.object({});
+
+const ScheduleTargetSchema = z.object({
+  processId: z.string().min(1)
+});
+
+const formatTime = (time?: number): string => time ? new Date(time).toISOString() : 'never';
+
+export function registerSchedulerTools(
+  schedulerManager: SchedulerManager,
+  logger: winston.Logger
+): void {
+  registerTool({
+    name: 'list_schedules',
+    description: 'List scheduled processes with their cron expression, next and last run',
+    schema: ListSchedulesSchema,
+    handler: async () => {
+      try {
+        const schedules = schedulerManager.listSchedules();
+        return {
+          content: [
+            { type: 'text', text: `Found ${schedules.length} scheduled processes` },
+            { type: 'text', text: JSON.stringify({ schedules }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to list schedules:', error);
+        return {
+          content: [{ type: 'text', text: `Failed to list schedules: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'trigger_schedule',
+    description: 'Run a scheduled process now, subject to its overlap policy',
+    schema: ScheduleTargetSchema,
+    handler: async (args: any) => {
+      try {
+        const result = await schedulerManager.trigger(args.processId);
+        const text = result.outcome === 'started'
+          ? `Started run of ${args.processId} as ${result.instanceId}`
+          : result.outcome === 'queued'
+            ? `Queued run of ${args.processId} behind the active run`
+            : `Skipped run of ${args.processId}: previous run still active`;
+        return {
+          content: [
+            { type: 'text', text },
+            { type: 'text', text: JSON.stringify({ ...result, schedule: schedulerManager.getSchedule(args.processId) }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to trigger schedule:', error);
+        return {
+          content: [{ type: 'text', text: `Failed to trigger schedule: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'pause_schedule',
+    description: 'Pause the schedule of a process; running instances are left alone',
+    schema: ScheduleTargetSchema,
+    handler: async (args: any) => {
+      try {
+        const schedule = schedulerManager.pause(args.processId);
+        return {
+          content: [
+            { type: 'text', text: `Paused schedule for ${schedule.name} (${schedule.processId})` },
+            { type: 'text', text: JSON.stringify({ schedule }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to pause schedule:', error);
+        return {
+          content: [{ type: 'text', text: `Failed to pause schedule: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'resume_schedule',
+    description: 'Resume a paused schedule from the next matching time',
+    schema: ScheduleTargetSchema,
+    handler: async (args: any) => {
+      try {
+        const schedule = schedulerManager.resume(args.processId);
+        return {
+          content: [
+            { type: 'text', text: `Resumed schedule for ${schedule.name} (${schedule.processId}), next run ${formatTime(schedule.nextRunAt)}` },
+            { type: 'text', text: JSON.stringify({ schedule }, null, 2) }
+          ]
+        };
+      } catch (error) {
+        logger.error('Failed to resume schedule:', error);
+        return {
+          content: [{ type: 'text', text: `Failed to resume schedule: ${error instanceof Error ? error.message : String(error)}` }],
+          isError: true
+        };
+      }
+    },
+  });
+}
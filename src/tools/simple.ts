@@ -0,0 +1,209 @@
+import path from 'node:path';
+import { z } from 'zod';
+import type winston from 'winston';
+import { ProcessManager } from '../process/manager.js';
+import { configFromInfo } from '../process/definition.js';
+import { LogManager } from '../logs/manager.js';
+import { LogEntry, LogType, ProcessInfo, ProcessStatus } from '../types/process.js';
+import { formatDuration, parseDuration } from '../utils/duration.js';
+import { registerTool } from './registry.js';
+
+// Names are unique per working directory; cwd defaults to the server's working directory
+const NameSchema = z.object({
+  name: z.string().min(1),
+  cwd: z.string().optional()
+});
+
+const SimpleStartSchema = NameSchema.extend({
+  command: z.string().min(1).optional(), // omit to start the stored definition again
+  args: z.array(z.string()).optional(),
+  shell: z.boolean().optional(),         // run command as a script, e.g. "npm run build && npm start"
+  env: z.record(z.string()).optional()
+});
+
+const SimpleListSchema = z.object({
+  all: z.boolean().default(false) // include processes from other working directories
+});
+
+const SimpleLogsSchema = NameSchema.extend({
+  lines: z.number().min(1).max(1000).default(100),
+  since: z.string().optional() // e.g. "5m", "1h"
+});
+
+function resolveCwd(cwd?: string): string {
+  return !cwd || cwd === 'pwd' ? process.cwd() : path.resolve(cwd);
+}
+
+function isAlive(info: ProcessInfo): boolean {
+  return info.status === ProcessStatus.RUNNING || info.status === ProcessStatus.STARTING || info.status === ProcessStatus.PAUSED;
+}
+
+// Exact match in the requested directory, else the only process with that name anywhere
+export function findByName(processes: ProcessInfo[], name: string, cwd?: string): ProcessInfo | undefined {
+  const named = processes.filter(p => p.name === name);
+  const dir = resolveCwd(cwd);
+  const local = named.find(p => resolveCwd(p.cwd) === dir);
+  if (local || cwd) return local;
+  if (named.length > 1) {
+    throw new Error(`Name "${name}" is used in ${named.length} directories (${named.map(p => p.cwd).join(', ')}); pass cwd to pick one`);
+  }
+  return named[0];
+}
+
+function requireByName(pm: ProcessManager, name: string, cwd?: string): ProcessInfo {
+  const info = findByName(pm.listProcesses(), name, cwd);
+  if (!info) throw new Error(`No process named "${name}"${cwd ? ` in ${resolveCwd(cwd)}` : ''}`);
+  return info;
+}
+
+function sameCommand(info: ProcessInfo, command: string, args: string[] = []): boolean {
+  return path.basename(info.command) === path.basename(command)
+    && JSON.stringify(info.args || []) === JSON.stringify(args);
+}
+
+function uptime(info: ProcessInfo): string | undefined {
+  return isAlive(info) && info.startedAt ? formatDuration(Date.now() - info.startedAt) : undefined;
+}
+
+export function registerSimpleTools(
+  pm: ProcessManager,
+  logManager: LogManager,
+  logger: winston.Logger
+): void {
+  registerTool({
+    name: 'start',
+    description: 'Start a process by name in the current directory; starting a running name again is a no-op',
+    schema: SimpleStartSchema,
+    handler: async (args) => {
+      try {
+        const cwd = resolveCwd(args.cwd);
+        const existing = findByName(pm.listProcesses(), args.name, cwd);
+
+        if (existing && isAlive(existing)) {
+          if (args.command && !sameCommand(existing, args.command, args.args)) {
+            return { content: [{ type: 'text', text: `"${args.name}" is already running a different command (${[existing.command, ...(existing.args || [])].join(' ')}); stop it first or use restart` }], isError: true };
+          }
+          return { content: [
+            { type: 'text', text: `"${args.name}" is already running (pid ${existing.pid}, up ${uptime(existing)})` },
+            { type: 'text', text: JSON.stringify({ name: existing.name, status: existing.status, pid: existing.pid, action: 'none' }, null, 2) }
+          ] };
+        }
+
+        if (!existing && !args.command) {
+          return { content: [{ type: 'text', text: `No process named "${args.name}" in ${cwd}; pass a command to create it` }], isError: true };
+        }
+
+        // Reuse the stored definition so the name keeps its id, history and settings
+        const base = existing ? configFromInfo(existing) : { name: args.name, cwd };
+        const info = await pm.startProcess(pm.withDefaultTimeouts({
+          ...base,
+          id: existing?.id,
+          name: args.name,
+          command: args.command ?? existing!.command,
+          args: args.command ? args.args : existing!.args,
+          shell: args.command ? args.shell : existing!.shell,
+          env: args.env ?? existing?.env,
+          cwd
+        }));
+        return { content: [
+          { type: 'text', text: `Started "${info.name}" (pid ${info.pid})` },
+          { type: 'text', text: JSON.stringify({ name: info.name, status: info.status, pid: info.pid, action: existing ? 'restarted' : 'created' }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to start process:', error);
+        return { content: [{ type: 'text', text: `Failed to start: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'stop',
+    description: 'Stop a running process by name',
+    schema: NameSchema,
+    handler: async (args) => {
+      try {
+        const info = requireByName(pm, args.name, args.cwd);
+        if (!isAlive(info)) {
+          return { content: [{ type: 'text', text: `"${info.name}" is not running (${info.status})` }] };
+        }
+        const result = await pm.stopProcess(info.id);
+        return { content: [
+          { type: 'text', text: `Stopped "${info.name}" after ${uptime(info)}` },
+          { type: 'text', text: JSON.stringify({ name: info.name, outcome: result.outcome, survivors: result.survivors }, null, 2) }
+        ], ...(result.survivors.length > 0 ? { isError: true } : {}) };
+      } catch (error) {
+        logger.error('Failed to stop process:', error);
+        return { content: [{ type: 'text', text: `Failed to stop: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'list',
+    description: 'List processes in the current directory with their status and uptime',
+    schema: SimpleListSchema,
+    handler: async (args) => {
+      try {
+        const dir = process.cwd();
+        const processes = pm.withEndpoints(pm.listProcesses().filter(p => args.all || resolveCwd(p.cwd) === dir))
+          .map(p => ({
+            name: p.name,
+            command: [path.basename(p.command), ...(p.args || [])].join(' '),
+            status: p.status,
+            duration: uptime(p),
+            ...(p.urls?.length ? { urls: p.urls } : {}),
+            ...(args.all ? { cwd: p.cwd } : {})
+          }));
+        const running = processes.filter(p => p.duration !== undefined).length;
+        return { content: [
+          { type: 'text', text: `${processes.length} process(es), ${running} running` },
+          { type: 'text', text: JSON.stringify(processes, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to list processes:', error);
+        return { content: [{ type: 'text', text: `Failed to list: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'logs',
+    description: 'Show recent output of a process by name, oldest first',
+    schema: SimpleLogsSchema,
+    handler: async (args) => {
+      try {
+        const info = requireByName(pm, args.name, args.cwd);
+        const startTime = args.since ? Date.now() - parseDuration(args.since) : undefined;
+        const logs: LogEntry[] = await logManager.getLogs({ processId: info.id, startTime, limit: args.lines });
+        const lines = [...logs]
+          .sort((a: LogEntry, b: LogEntry) => a.timestamp - b.timestamp)
+          .map((log: LogEntry) => log.type === LogType.STDOUT ? log.message : `[${log.type}] ${log.message}`);
+        return { content: [
+          { type: 'text', text: lines.length > 0 ? `Last ${lines.length} line(s) of "${info.name}" (${info.status}):` : `No output from "${info.name}" yet` },
+          { type: 'text', text: lines.join('\n') }
+        ] };
+      } catch (error) {
+        logger.error('Failed to get logs:', error);
+        return { content: [{ type: 'text', text: `Failed to get logs: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+
+  registerTool({
+    name: 'restart',
+    description: 'Restart a process by name, starting it if it is stopped',
+    schema: NameSchema,
+    handler: async (args) => {
+      try {
+        const info = await pm.restartProcess(requireByName(pm, args.name, args.cwd).id);
+        return { content: [
+          { type: 'text', text: `Restarted "${info.name}" (pid ${info.pid})` },
+          { type: 'text', text: JSON.stringify({ name: info.name, status: info.status, pid: info.pid }, null, 2) }
+        ] };
+      } catch (error) {
+        logger.error('Failed to restart process:', error);
+        return { content: [{ type: 'text', text: `Failed to restart: ${error instanceof Error ? error.message : String(error)}` }], isError: true };
+      }
+    },
+  });
+}
@@ -3,7 +3,9 @@ export enum ProcessStatus {
   RUNNING = 'running',
   STOPPED = 'stopped',
   FAILED = 'failed',
-  CRASHED = 'crashed'
+  CRASHED = 'crashed',
+  CRASH_LOOP = 'crash_loop',
+  PAUSED = 'paused'         // stopped with SIGSTOP by pause_process until resume_process
 }
 
 export enum HealthStatus {
@@ -15,7 +17,9 @@ export enum HealthStatus {
 export enum LogType {
   STDOUT = 'stdout',
   STDERR = 'stderr',
-  SYSTEM = 'system'
+  SYSTEM = 'system',
+  STDIN = 'stdin',
+  HOOK = 'hook'             // output of lifecycle hook commands
 }
 
 export enum LogLevel {
@@ -25,19 +29,99 @@ export enum LogLevel {
   ERROR = 'error'
 }
 
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+export interface RestartPolicy {
+  mode: RestartMode;
+  maxRetries?: number;      // consecutive quick restarts before giving up (crash loop)
+  minUptimeMs?: number;     // runs shorter than this count toward maxRetries
+  backoffMs?: number;       // initial delay, doubled on each consecutive restart
+  maxBackoffMs?: number;    // upper bound for the delay
+}
+
+export type ReadinessType = 'port' | 'http' | 'log' | 'command';
+
+export interface WatchConfig {
+  paths?: string[];         // files or directories under cwd (default ["."])
+  ignore?: string[];        // glob patterns added to the defaults, e.g. "dist/**" or "*_test.go"
+  debounceMs?: number;      // restart once changes stopped for this long (default 500)
+  restartSignal?: string;   // first signal sent when a change restarts the process (default: stopSignal)
+}
+
+export interface ReadinessCheck {
+  type: ReadinessType;
+  port?: number;            // port: TCP port to connect to; http: used with host/path when url is unset
+  host?: string;            // default 127.0.0.1
+  url?: string;             // http: full URL expected to answer 2xx
+  path?: string;            // http: path on host:port (default /)
+  pattern?: string;         // log: regex matched against stdout/stderr lines
+  command?: string;         // command: exits 0 once ready
+  timeoutMs?: number;       // give up and fail the start after this long (default 60000)
+  intervalMs?: number;      // probe interval for port/http/command (default 500)
+}
+
+export type ResourceAction = 'warn' | 'restart' | 'kill';
+
+// Per-process overrides of PM_MAX_CPU_PERCENT, PM_MAX_MEMORY_MB, PM_RESOURCE_SUSTAINED_MS and PM_RESOURCE_ACTION
+export interface ResourceLimits {
+  maxCpuPercent?: number;
+  maxMemoryMb?: number;
+  sustainedMs?: number;     // a limit must be exceeded this long before the action runs
+  action?: ResourceAction;
+}
+
+export type ScheduleOverlap = 'skip' | 'queue' | 'allow';
+
+export interface ProcessSchedule {
+  cron: string;             // 5-field cron expression or @hourly/@daily/...
+  timezone?: string;        // IANA name (default: UTC)
+  overlap?: ScheduleOverlap; // when the previous run is still going: skip (default), queue one run, or allow a parallel instance
+}
+
+export type HookName = 'preStart' | 'postStart' | 'preStop' | 'postStop';
+
+export type HookFailurePolicy = 'abort' | 'continue';
+
+export interface ProcessHook {
+  command: string;          // run through the command allowlist with the process's env and cwd
+  timeoutMs?: number;       // default: 60000
+  onFailure?: HookFailurePolicy; // start hooks abort the start by default; stop hooks always continue
+}
+
+export type ProcessHooks = Partial<Record<HookName, ProcessHook>>;
+
 export interface ProcessConfig {
   id?: string;
   name: string;
   command: string;
   args?: string[];
+  shell?: boolean;          // run command as a script with PM_SHELL, e.g. "npm run build && npm start"
   env?: Record<string, string>;
   envFiles?: string[];      // New: merge env from files (left→right)
   envProfile?: string;      // New: profile name to expand default file order
   cwd?: string;             // accepts absolute path or "pwd"
   autoRestart?: boolean;
+  restartPolicy?: RestartPolicy; // overrides autoRestart when set
+  startOnBoot?: boolean;    // start automatically when the server boots
+  detached?: boolean;       // run in its own session and survive server restarts (default: PM_SUPERVISION_MODE)
+  interactive?: boolean;    // keep stdin open as a pipe so send_input can write to it
+  stopSignal?: string;      // first signal sent on stop (default: SIGTERM)
+  stopTimeoutMs?: number;   // grace period after each stop signal (default: 5000)
+  stopEscalation?: string[]; // signals sent after stopSignal times out; SIGKILL is always last
+  readiness?: ReadinessCheck; // stay STARTING until this check passes
+  resourceLimits?: ResourceLimits;
+  schedule?: ProcessSchedule; // run on a cron schedule instead of starting immediately
+  hooks?: ProcessHooks;     // commands run before/after the process starts and stops
+  maxRuntimeMs?: number;    // stop the process this long after it started (0: no limit)
+  idleTimeoutMs?: number;   // stop the process after this long without output or CPU use (0: no limit)
+  watch?: WatchConfig;      // restart when files under cwd change
   healthCheckCommand?: string;
   healthCheckInterval?: number;
   groupId?: string;
+  labels?: Record<string, string>; // e.g. { tier: 'backend' }; bulk tools address processes by label selector
+  instances?: number;       // run this many copies, each its own process with INSTANCE_INDEX set (see scale_process)
+  basePort?: number;        // with instances: copy i gets PORT = basePort + i
+  task?: boolean;           // created by run_task; only such records are reused and pruned by it
 }
 
 export interface ProcessInfo extends ProcessConfig {
@@ -48,10 +132,108 @@ export interface ProcessInfo extends ProcessConfig {
   startedAt?: number;
   stoppedAt?: number;
   restartCount: number;
+  readyAt?: number;         // when the readiness check passed
+  timeToReadyMs?: number;   // readyAt - startedAt
+  nextRestartAt?: number;   // set while a crash restart is pending
+  adopted?: boolean;        // re-attached to a detached process that outlived a server restart
+  logFiles?: { stdout: string; stderr: string }; // output files of detached processes
+  ports?: number[];         // TCP ports the process tree listens on (running processes, in listings only)
+  urls?: string[];          // service URLs the current run printed, e.g. "Local: http://localhost:5173/"
+  replicaOf?: string;       // set on copies of a process with instances
+  instanceIndex?: number;   // INSTANCE_INDEX of a copy
+  replicas?: ProcessInfo[]; // copies of a process with instances (list_processes only)
   healthStatus: HealthStatus;
   lastHealthCheck?: number;
 }
 
+export interface DeleteResult {
+  processId: string;
+  name: string;
+  purged: boolean;          // logs, metrics, errors and run history were deleted too
+  stop?: StopResult;        // set when a running process was stopped first (force)
+}
+
+// signal_process targets the whole process group by default, or only the root process
+export type SignalScope = 'group' | 'process';
+
+export type StopOutcome = 'graceful' | 'escalated' | 'killed' | 'not_running';
+
+export interface StopResult {
+  outcome: StopOutcome;     // graceful: exited after the first signal; escalated: needed later signals
+  signalsSent: string[];
+  elapsedMs: number;
+  signalled: number[];      // PIDs of the process tree that received a signal
+  survivors: number[];      // PIDs still alive after the stop completed (empty on success)
+}
+
+// Why a run ended: user stop/restart, the process exiting by itself (exit 0) or crashing,
+// or the health check, resource watchdog, readiness timeout, a failed postStart hook, task timeout, maxRuntimeMs,
+// idleTimeoutMs, a watched file changing or server shutdown stopping it
+export type StopReason = 'user' | 'exit' | 'crash' | 'health' | 'watchdog' | 'readiness' | 'hook' | 'timeout' | 'max_runtime' | 'idle' | 'watch' | 'shutdown';
+
+export interface ProcessRun {
+  id: number;
+  processId: string;
+  pid?: number;
+  configHash: string;       // hash of the definition the run was started with
+  startedAt: number;
+  readyAt?: number;
+  stoppedAt?: number;       // unset while running, or when the server died without seeing the exit
+  exitCode?: number;
+  signal?: string;
+  stopReason?: StopReason;
+  durationMs?: number;
+}
+
+export interface CrashOutputLine {
+  type: LogType.STDOUT | LogType.STDERR;
+  message: string;
+  timestamp: number;
+}
+
+export interface CrashMetricSample {
+  timestamp: number;
+  cpuUsage: number;         // percent
+  memoryUsage: number;      // bytes
+}
+
+export interface CrashMetrics {
+  samples: CrashMetricSample[];   // oldest first
+  memory?: { firstBytes: number; lastBytes: number; peakBytes: number; changeBytes: number };
+  cpu?: { lastPercent: number; averagePercent: number; peakPercent: number };
+}
+
+// Postmortem of an abnormal exit, linked to the "Crash" entry it added to the errors table
+export interface CrashReport {
+  id: number;
+  processId: string;
+  runId?: number;
+  errorId?: number;
+  exitCode?: number;
+  signal?: string;
+  explanation: string;
+  uptimeMs: number;
+  restartCount: number;
+  output: CrashOutputLine[];      // last lines of stdout/stderr, oldest first
+  metrics: CrashMetrics;
+  createdAt: number;
+}
+
+export type TaskStatus = 'completed' | 'timed_out' | 'detached';
+
+export interface TaskResult {
+  processId: string;        // stored process record; poll it with get_process_info/get_logs when detached
+  status: TaskStatus;       // timed_out: stopped after the timeout; detached: left running after the timeout
+  exitCode: number | null;
+  signal: string | null;
+  durationMs: number;
+  stdout: string;           // head and tail of the output when it was truncated
+  stderr: string;
+  stdoutLines: number;
+  stderrLines: number;
+  truncated: boolean;
+}
+
 export interface ProcessMetrics {
   processId: string;
   cpuUsage: number;
@@ -0,0 +1,42 @@
+// Human-readable durations ("90s", "5m", "2h 3m") for the simple tool surface
+const UNITS: Array<[string, number]> = [
+  ['d', 24 * 60 * 60 * 1000],
+  ['h', 60 * 60 * 1000],
+  ['m', 60 * 1000],
+  ['s', 1000]
+];
+
+// Largest two units, e.g. "2h 3m"; under a second reads as "0s"
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.floor(ms));
+  const first = UNITS.findIndex(([, size]) => total >= size);
+  if (first === -1) return '0s';
+
+  const [unit, size] = UNITS[first];
+  const parts = [`${Math.floor(total / size)}${unit}`];
+  if (first + 1 < UNITS.length) {
+    const [nextUnit, nextSize] = UNITS[first + 1];
+    const rest = Math.floor((total % size) / nextSize);
+    if (rest > 0) parts.push(`${rest}${nextUnit}`);
+  }
+  return parts.join(' ');
+}
+
+// Accepts "500ms", "30s", "5m", "1h30m", "2d" (whitespace between parts allowed); returns milliseconds
+export function parseDuration(text: string): number {
+  const trimmed = text.trim();
+  const pattern = /(\d+(?:\.\d+)?)\s*(ms|d|h|m|s)/gy;
+  let total = 0;
+  let matched = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    const size = match[2] === 'ms' ? 1 : UNITS.find(([unit]) => unit === match![2])![1];
+    total += parseFloat(match[1]) * size;
+    matched = pattern.lastIndex;
+    while (trimmed[pattern.lastIndex] === ' ') pattern.lastIndex++;
+  }
+  if (!trimmed || matched !== trimmed.length) {
+    throw new Error(`Invalid duration "${text}" (expected e.g. 30s, 5m, 1h30m)`);
+  }
+  return Math.round(total);
+}
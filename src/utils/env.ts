@@ -3,10 +3,14 @@
 import fs from 'node:fs';
 import path from 'node:path';
 
+export function envFilePath(cwd: string, file: string): string {
+  return file === 'pwd' ? cwd : path.isAbsolute(file) ? file : path.join(cwd, file);
+}
+
 export function loadEnvFiles(cwd: string, files: string[]): Record<string,string> {
   const result: Record<string,string> = {};
   for (const rel of files) {
-    const p = rel === 'pwd' ? cwd : path.isAbsolute(rel) ? rel : path.join(cwd, rel);
+    const p = envFilePath(cwd, rel);
     if (!fs.existsSync(p)) continue;
     const text = fs.readFileSync(p, 'utf8');
     for (const line of text.split(/\r?\n/)) {
@@ -33,3 +37,34 @@ function unquote(s: string): string {
 function interpolate(value: string, ctx: Record<string,string>): string {
   return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, k) => (ctx[k] ?? process.env[k] ?? ''));
 }
+
+export interface EnvSources {
+  cwd?: string;
+  env?: Record<string,string>;
+  envFiles?: string[];
+  envProfile?: string;
+}
+
+// Files read for a definition: explicit envFiles first, then the profile's default order
+export function envFilesFor(sources: EnvSources): string[] {
+  const profile = (sources.envProfile || '').trim();
+  const fromProfile = profile ? ['.env', '.env.local', `.env.${profile}`, `.env.${profile}.local`] : [];
+  return [...(sources.envFiles || []), ...fromProfile];
+}
+
+// Environment a process is spawned with; only the sources are persisted, so files are re-read on every start
+export function resolveEnv(sources: EnvSources): Record<string,string> {
+  return { ...fileEnv(sources), ...(sources.env || {}) };
+}
+
+// Drop keys whose value came from the env files, leaving only the explicit overrides
+export function explicitEnv(sources: EnvSources): Record<string,string> {
+  const loaded = fileEnv(sources);
+  return Object.fromEntries(Object.entries(sources.env || {}).filter(([key, value]) => loaded[key] !== value));
+}
+
+function fileEnv(sources: EnvSources): Record<string,string> {
+  const files = envFilesFor(sources);
+  if (!files.length) return {};
+  return loadEnvFiles(!sources.cwd || sources.cwd === 'pwd' ? process.cwd() : sources.cwd, files);
+}
@@ -0,0 +1,78 @@
+// Masks secrets before process definitions leave the server through tool results or resources
+export const REDACTED = '[REDACTED]';
+
+// Glob-style, case-insensitive; matched against env variable names
+export const SECRET_NAME_PATTERNS = ['*_KEY', '*_SECRET', '*TOKEN*', '*PASSWORD*', '*PASSWD*', '*CREDENTIAL*'];
+
+const secretNameRegexes = SECRET_NAME_PATTERNS.map(pattern =>
+  new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i')
+);
+
+// user:password@ in connection strings such as postgres://app:hunter2@db/app
+const URL_CREDENTIALS = /([a-z][a-z0-9+.-]*:\/\/[^:/?#@\s]+:)([^@/?#\s]+)(@)/gi;
+
+export function isSecretName(name: string): boolean {
+  return secretNameRegexes.some(regex => regex.test(name));
+}
+
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+// Long, unbroken, random-looking strings: API keys, JWTs, hex digests. Paths and prose don't qualify.
+export function looksLikeSecret(value: string): boolean {
+  if (value.length < 20 || /[\s/]/.test(value)) return false;
+  const classes = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(regex => regex.test(value)).length;
+  if (/^[0-9a-f]+$/i.test(value)) return value.length >= 32 && entropy(value) >= 3;
+  return classes >= 3 && entropy(value) >= 3.5;
+}
+
+export function redactText(text: string): string {
+  return text.replace(URL_CREDENTIALS, `$1${REDACTED}$3`);
+}
+
+export function redactEnv(env: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(env)) {
+    result[key] = typeof value === 'string' && (isSecretName(key) || looksLikeSecret(value))
+      ? REDACTED
+      : typeof value === 'string' ? redactText(value) : value;
+  }
+  return result;
+}
+
+// Deep copy with every `env` map masked and credentials stripped from URLs
+export function redactSecrets<T>(value: T): T {
+  if (typeof value === 'string') return redactText(value) as T;
+  if (Array.isArray(value)) return value.map(item => redactSecrets(item)) as T;
+  if (!value || typeof value !== 'object') return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = key === 'env' && item && typeof item === 'object' && !Array.isArray(item)
+      ? redactEnv(item as Record<string, string>)
+      : redactSecrets(item);
+  }
+  return result as T;
+}
+
+// Tool and resource payloads are JSON text; keep their indentation when re-serializing
+export function redactPayload(text: string): string {
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(text);
+      return JSON.stringify(redactSecrets(parsed), null, text.includes('\n') ? 2 : undefined);
+    } catch {
+      // Not JSON after all; fall through to plain-text masking
+    }
+  }
+  return redactText(text);
+}
@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import { ConfigManager } from '../src/config/manager';
 
 describe('ConfigManager', () => {
@@ -46,6 +49,36 @@ describe('ConfigManager', () => {
     expect(config.isCommandAllowed('/invalid/path')).toBe(false);
   });
 
+  it('should confine paths to PM_ALLOWED_CWDS roots', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-cwds-'));
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-outside-'));
+    fs.mkdirSync(path.join(root, 'app'));
+    fs.symlinkSync(outside, path.join(root, 'escape'));
+    process.env.PM_ALLOWED_CWDS = root;
+    const config = new ConfigManager();
+
+    expect(config.isPathAllowed(path.join(root, 'app'))).toBe(true);
+    expect(config.isPathAllowed(path.join(root, 'app', '.env.local'))).toBe(true); // need not exist yet
+    expect(config.isPathAllowed(path.join(root, 'app', '..', '..'))).toBe(false);
+    expect(config.isPathAllowed(path.join(root, 'escape', '.env'))).toBe(false);
+    expect(() => config.assertPathAllowed(outside, 'Working directory'))
+      .toThrow(`Working directory not allowed: ${outside}. To grant permission, add it or a parent directory to PM_ALLOWED_CWDS`);
+
+    fs.rmSync(root, { recursive: true, force: true });
+    fs.rmSync(outside, { recursive: true, force: true });
+  });
+
+  it('should expand PM_ALLOWED_CWDS entries and allow any directory when unset', () => {
+    process.env.PM_ALLOWED_CWDS = 'pwd,~';
+    expect(new ConfigManager().get('PM_ALLOWED_CWDS')).toEqual([process.cwd(), os.homedir()]);
+
+    delete process.env.PM_ALLOWED_CWDS;
+    expect(new ConfigManager().isPathAllowed('/')).toBe(true);
+
+    process.env.PM_ALLOWED_CWDS = 'projects';
+    expect(() => new ConfigManager()).toThrow('Invalid working directory root: projects must be absolute');
+  });
+
   it('should return all configuration', () => {
     const config = new ConfigManager();
     const all = config.getAll();
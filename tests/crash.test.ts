@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { OutputHistory, explainExit, summarizeMetrics } from '../src/process/crash';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { CrashReport, LogType } from '../src/types/process';
+
+describe('Crash reports', () => {
+  it('should decode signals and shell exit codes', () => {
+    expect(explainExit(null, 'SIGKILL')).toMatch(/^Killed by SIGKILL, likely the kernel OOM killer/);
+    expect(explainExit(137, null)).toMatch(/^Exit code 137 \(128 \+ 9\): killed by SIGKILL/);
+    expect(explainExit(143, null)).toContain('SIGTERM');
+    expect(explainExit(130, null)).toContain('SIGINT');
+    expect(explainExit(127, null)).toBe('Exited with code 127 (command not found)');
+    expect(explainExit(3, null)).toBe('Exited with code 3');
+  });
+
+  it('should point at memory exhaustion reported in the output', () => {
+    const output = [{ type: LogType.STDERR as const, message: 'FATAL ERROR: JavaScript heap out of memory', timestamp: 0 }];
+    expect(explainExit(134, null, output)).toMatch(/SIGABRT.*running out of memory$/);
+  });
+
+  it('should keep only the last lines of output', () => {
+    const history = new OutputHistory(3);
+    history.push(LogType.STDOUT, 'one\ntwo');
+    history.push(LogType.STDERR, 'three\n\nfour');
+    expect(history.snapshot().map(line => `${line.type}:${line.message}`)).toEqual(['stdout:two', 'stderr:three', 'stderr:four']);
+  });
+
+  it('should summarize the memory trend and CPU of the final samples', () => {
+    const metrics = summarizeMetrics([
+      { timestamp: 1, cpuUsage: 10, memoryUsage: 100 },
+      { timestamp: 2, cpuUsage: 30, memoryUsage: 400 },
+      { timestamp: 3, cpuUsage: 20, memoryUsage: 300 }
+    ]);
+    expect(metrics.memory).toEqual({ firstBytes: 100, lastBytes: 300, peakBytes: 400, changeBytes: 200 });
+    expect(metrics.cpu).toEqual({ lastPercent: 20, averagePercent: 20, peakPercent: 30 });
+    expect(summarizeMetrics([])).toEqual({ samples: [] });
+  });
+
+  describe('ProcessManager', () => {
+    let db: DatabaseManager;
+    let processManager: ProcessManager;
+    const logger = winston.createLogger({ silent: true });
+
+    beforeEach(() => {
+      process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+      db = new DatabaseManager(':memory:', logger);
+      processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    });
+
+    afterEach(async () => {
+      await processManager.shutdown();
+      db.close();
+    });
+
+    it('should record a report linked to a Crash error when a process crashes', async () => {
+      const reported = new Promise<CrashReport>(resolve => {
+        processManager.once('processCrashReport', (_id: string, report: CrashReport) => resolve(report));
+      });
+      const info = await processManager.startProcess({
+        name: 'crasher',
+        command: '/bin/sh',
+        args: ['-c', 'echo booting; echo "db connection refused" >&2; exit 137']
+      });
+
+      const report = await reported;
+      expect(report.processId).toBe(info.id);
+      expect(report.exitCode).toBe(137);
+      expect(report.explanation).toContain('SIGKILL');
+      expect(report.output.map(line => line.message)).toEqual(['booting', 'db connection refused']);
+      expect(report.restartCount).toBe(0);
+
+      const error = db.getDb().prepare('SELECT * FROM errors WHERE id = ?').get(report.errorId) as any;
+      expect(error.error_type).toBe('Crash');
+      expect(error.stack_trace).toBe('db connection refused');
+      expect(processManager.getCrashReport({ errorId: report.errorId })?.id).toBe(report.id);
+      expect(processManager.getCrashReports(info.id)).toHaveLength(1);
+    });
+
+    it('should not record a report for clean exits or requested stops', async () => {
+      const clean = await processManager.startProcess({ name: 'clean', command: '/bin/true' });
+      const stopped = await processManager.startProcess({ name: 'stopped', command: '/bin/sleep', args: ['30'] });
+      await processManager.stopProcess(stopped.id);
+      await new Promise(resolve => setTimeout(resolve, 800));
+
+      expect(processManager.getCrashReports(clean.id)).toEqual([]);
+      expect(processManager.getCrashReports(stopped.id)).toEqual([]);
+    });
+  });
+});
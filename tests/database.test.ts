@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseManager } from '../src/database/manager';
+import Database from 'better-sqlite3';
 import winston from 'winston';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 describe('DatabaseManager', () => {
   let db: DatabaseManager;
@@ -88,4 +92,34 @@ describe('DatabaseManager', () => {
     expect(dbInstance).toBeDefined();
     expect(typeof dbInstance.prepare).toBe('function');
   });
-});
\ No newline at end of file
+
+  it('should migrate status constraints without losing rows', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-db-'));
+    const dbPath = path.join(dir, 'legacy.db');
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE processes (id TEXT PRIMARY KEY, name TEXT NOT NULL, command TEXT NOT NULL, args TEXT, env TEXT, cwd TEXT, pid INTEGER,
+        status TEXT CHECK(status IN ('starting', 'running', 'stopped', 'failed', 'crashed')), group_id TEXT, created_at INTEGER NOT NULL,
+        started_at INTEGER, stopped_at INTEGER, restart_count INTEGER DEFAULT 0, auto_restart BOOLEAN DEFAULT FALSE,
+        health_check_command TEXT, health_check_interval INTEGER, last_health_check INTEGER, health_status TEXT);
+      CREATE TABLE logs (id INTEGER PRIMARY KEY AUTOINCREMENT, process_id TEXT NOT NULL, type TEXT, message TEXT NOT NULL,
+        timestamp INTEGER NOT NULL, level TEXT, FOREIGN KEY (process_id) REFERENCES processes(id) ON DELETE CASCADE);
+      INSERT INTO processes (id, name, command, status, created_at) VALUES ('legacy', 'legacy', '/bin/true', 'stopped', 1);
+      INSERT INTO logs (process_id, type, message, timestamp, level) VALUES ('legacy', 'stdout', 'kept', 1, 'info');
+    `);
+    legacy.close();
+
+    const migrated = new DatabaseManager(dbPath, logger);
+    try {
+      migrated.getDb().prepare("UPDATE processes SET status = 'crash_loop' WHERE id = 'legacy'").run();
+      const row = migrated.getDb().prepare('SELECT status FROM processes WHERE id = ?').get('legacy') as any;
+      const logs = migrated.getDb().prepare('SELECT COUNT(*) as count FROM logs').get() as any;
+      expect(row.status).toBe('crash_loop');
+      expect(logs.count).toBe(1);
+      expect(() => migrated.getDb().prepare("UPDATE processes SET status = 'paused' WHERE id = 'legacy'").run()).not.toThrow();
+    } finally {
+      migrated.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { planDependencies, withDependencies } from '../src/config/dependencies';
+
+describe('Dependency Planning', () => {
+  const processes = {
+    web: { dependsOn: ['api'] },
+    api: { dependsOn: ['db', 'cache'] },
+    worker: { dependsOn: ['db'] },
+    db: {},
+    cache: {},
+    docs: {}
+  };
+
+  it('should place every process after its dependencies', () => {
+    const plan = planDependencies(processes);
+    expect(plan.stages).toEqual([['db', 'cache', 'docs'], ['api', 'worker'], ['web']]);
+    expect(plan.order).toEqual(['db', 'cache', 'docs', 'api', 'worker', 'web']);
+    expect(plan.dependents.db).toEqual(['api', 'worker']);
+  });
+
+  it('should name the cycle', () => {
+    expect(() => planDependencies({ api: { dependsOn: ['worker'] }, worker: { dependsOn: ['api'] } }))
+      .toThrow('Dependency cycle: api -> worker -> api');
+    expect(() => planDependencies({ api: { dependsOn: ['api'] } })).toThrow('Dependency cycle: api -> api');
+  });
+
+  it('should reject unknown dependencies', () => {
+    expect(() => planDependencies({ api: { dependsOn: ['postgres'] } }))
+      .toThrow('Process "api" depends on unknown process "postgres"');
+  });
+
+  it('should pull in transitive dependencies', () => {
+    const plan = planDependencies(processes);
+    expect([...withDependencies(plan, ['web'])].sort()).toEqual(['api', 'cache', 'db', 'web']);
+  });
+});
@@ -5,6 +5,7 @@ import { ConfigManager } from '../src/config/manager';
 import { LogManager } from '../src/logs/manager';
 import { ErrorManager } from '../src/errors/manager';
 import { GroupManager } from '../src/groups/manager';
+import { SchedulerManager } from '../src/scheduler/manager';
 import { StatsCollector } from '../src/monitoring/collector';
 import { HealthCheckService } from '../src/monitoring/health';
 import { registerTools } from '../src/tools/index';
@@ -17,6 +18,7 @@ describe('End-to-End Tool Integration Tests', () => {
   let logManager: LogManager;
   let errorManager: ErrorManager;
   let groupManager: GroupManager;
+  let schedulerManager: SchedulerManager;
   let statsCollector: StatsCollector;
   let healthService: HealthCheckService;
   let logger: winston.Logger;
@@ -30,11 +32,12 @@ describe('End-to-End Tool Integration Tests', () => {
     errorManager = new ErrorManager(db, logger);
     processManager = new ProcessManager(db, logger, config, logManager);
     groupManager = new GroupManager(db, processManager, logger);
+    schedulerManager = new SchedulerManager(db, processManager, logger);
     statsCollector = new StatsCollector(db, processManager, logger);
     healthService = new HealthCheckService(processManager, db, logger, config.get('PM_ALLOWED_COMMANDS'));
 
     // Register all tools
-    registerTools(processManager, statsCollector, healthService, logManager, errorManager, groupManager, logger);
+    registerTools(processManager, statsCollector, healthService, logManager, errorManager, groupManager, schedulerManager, logger);
   });
 
   afterEach(async () => {
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { LineSplitter, hookFailurePolicy, validateHooks } from '../src/process/hooks';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { ProcessStatus } from '../src/types/process';
+
+describe('Lifecycle Hooks', () => {
+  it('should abort on failed start hooks unless told to continue', () => {
+    expect(hookFailurePolicy('preStart', { command: 'x' })).toBe('abort');
+    expect(hookFailurePolicy('postStart', { command: 'x', onFailure: 'continue' })).toBe('continue');
+    expect(hookFailurePolicy('postStop', { command: 'x' })).toBe('continue');
+  });
+
+  it('should reject hooks that cannot run', () => {
+    expect(() => validateHooks({ preStart: { command: ' ' } })).toThrow('Hook preStart requires a command');
+    expect(() => validateHooks({ preStop: { command: 'x', onFailure: 'abort' } })).toThrow('cannot abort a stop');
+    expect(() => validateHooks({ onStart: { command: 'x' } } as any)).toThrow('Unknown hook "onStart"');
+  });
+
+  it('should split streamed output into lines', () => {
+    const lines: string[] = [];
+    const splitter = new LineSplitter(line => lines.push(line));
+    splitter.push('Applying migration 1\nApply');
+    splitter.push('ing migration 2\r\n\n');
+    splitter.push('done');
+    splitter.flush();
+    expect(lines).toEqual(['Applying migration 1', 'Applying migration 2', 'done']);
+  });
+
+  describe('ProcessManager', () => {
+    let db: DatabaseManager;
+    let processManager: ProcessManager;
+    let cwd: string;
+    const logger = winston.createLogger({ silent: true });
+
+    beforeEach(() => {
+      process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+      cwd = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-hooks-'));
+      db = new DatabaseManager(':memory:', logger);
+      processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    });
+
+    afterEach(async () => {
+      await processManager.shutdown();
+      db.close();
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it('should run hooks in the process cwd around start and stop', async () => {
+      const info = await processManager.startProcess({
+        name: 'worker',
+        command: '/bin/sleep',
+        args: ['30'],
+        cwd,
+        hooks: { preStart: { command: '/usr/bin/touch worker.lock' }, postStop: { command: '/bin/rm worker.lock' } }
+      });
+      expect(fs.existsSync(path.join(cwd, 'worker.lock'))).toBe(true);
+
+      await processManager.stopProcess(info.id);
+      expect(fs.existsSync(path.join(cwd, 'worker.lock'))).toBe(false);
+    });
+
+    it('should fail the start when a preStart hook fails', async () => {
+      await expect(processManager.startProcess({
+        name: 'api',
+        command: '/bin/sleep',
+        args: ['30'],
+        hooks: { preStart: { command: '/bin/false' } }
+      })).rejects.toThrow('preStart hook failed: exited with code 1');
+      expect(processManager.listProcesses()[0].status).toBe(ProcessStatus.FAILED);
+    });
+
+    it('should apply the command allowlist to hooks', () => {
+      expect(() => processManager.registerProcess({
+        name: 'api',
+        command: '/bin/true',
+        hooks: { preStart: { command: '/opt/tools/migrate' } }
+      })).toThrow('Hook command not allowed');
+    });
+  });
+});
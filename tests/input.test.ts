@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { resolveKey, encodeInput } from '../src/process/input';
+
+describe('Process Input', () => {
+  describe('resolveKey', () => {
+    it('should resolve named keys case-insensitively', () => {
+      expect(resolveKey('Enter')).toBe('\n');
+      expect(resolveKey('TAB')).toBe('\t');
+      expect(resolveKey('up')).toBe('\x1b[A');
+    });
+
+    it('should resolve control keys', () => {
+      expect(resolveKey('Ctrl-C')).toBe('\x03');
+      expect(resolveKey('ctrl+d')).toBe('\x04');
+      expect(resolveKey('Ctrl-Z')).toBe('\x1a');
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => resolveKey('Hyper')).toThrow(/Unknown key/);
+    });
+  });
+
+  describe('encodeInput', () => {
+    it('should concatenate text, bytes and keys in order', () => {
+      const { data, echo } = encodeInput({
+        text: 'yes',
+        bytes: Buffer.from([0x01, 0x02]).toString('base64'),
+        keys: ['Enter']
+      });
+      expect([...data]).toEqual([0x79, 0x65, 0x73, 0x01, 0x02, 0x0a]);
+      expect(echo).toBe('yes <2 bytes> <Enter>');
+    });
+
+    it('should append a newline when requested', () => {
+      const { data, echo } = encodeInput({ text: 'help', newline: true });
+      expect(data.toString()).toBe('help\n');
+      expect(echo).toBe('help');
+    });
+
+    it('should reject empty input', () => {
+      expect(() => encodeInput({})).toThrow(/No input given/);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { matchesSelector, parseSelector, validateLabels } from '../src/process/labels';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+
+describe('Labels', () => {
+  it('should parse equality, inequality and existence terms', () => {
+    expect(parseSelector('tier=backend, project!=legacy,canary,!deprecated')).toEqual([
+      { key: 'tier', operator: '=', value: 'backend' },
+      { key: 'project', operator: '!=', value: 'legacy' },
+      { key: 'canary', operator: 'exists' },
+      { key: 'deprecated', operator: '!exists' }
+    ]);
+    expect(() => parseSelector('!tier=backend')).toThrow('Invalid selector term');
+    expect(() => parseSelector(' , ')).toThrow('Selector is empty');
+  });
+
+  it('should require every term to match', () => {
+    const selector = parseSelector('tier=backend,project!=legacy');
+    expect(matchesSelector({ tier: 'backend', project: 'checkout' }, selector)).toBe(true);
+    expect(matchesSelector({ tier: 'backend' }, selector)).toBe(true);
+    expect(matchesSelector({ tier: 'backend', project: 'legacy' }, selector)).toBe(false);
+    expect(matchesSelector(undefined, selector)).toBe(false);
+  });
+
+  it('should reject malformed keys and values', () => {
+    expect(() => validateLabels({ 'app.kubernetes.io/name': 'api' })).not.toThrow();
+    expect(() => validateLabels({ 'bad key': 'x' })).toThrow('Invalid label key');
+    expect(() => validateLabels({ tier: 'back end' })).toThrow('Invalid value for label "tier"');
+  });
+
+  describe('ProcessManager', () => {
+    let db: DatabaseManager;
+    let processManager: ProcessManager;
+    const logger = winston.createLogger({ silent: true });
+
+    beforeEach(() => {
+      process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+      db = new DatabaseManager(':memory:', logger);
+      processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    });
+
+    afterEach(async () => {
+      await processManager.shutdown();
+      db.close();
+    });
+
+    it('should persist labels and filter listings by selector', () => {
+      processManager.registerProcess({ name: 'api', command: '/bin/true', labels: { tier: 'backend', project: 'checkout' } });
+      processManager.registerProcess({ name: 'old-api', command: '/bin/true', labels: { tier: 'backend', project: 'legacy' } });
+      processManager.registerProcess({ name: 'web', command: '/bin/true', labels: { tier: 'frontend' } });
+
+      const selected = processManager.listProcesses({ selector: 'tier=backend,project!=legacy' });
+      expect(selected.map(p => p.name)).toEqual(['api']);
+
+      const reloaded = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+      expect(reloaded.listProcesses({ selector: 'tier=frontend' })[0].labels).toEqual({ tier: 'frontend' });
+    });
+  });
+});
@@ -4,6 +4,9 @@ import { LogManager } from '../src/logs/manager';
 import { DatabaseManager } from '../src/database/manager';
 import { ConfigManager } from '../src/config/manager';
 import winston from 'winston';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 
 describe('Process Lifecycle Tools', () => {
   let processManager: ProcessManager;
@@ -55,8 +58,154 @@ describe('Process Lifecycle Tools', () => {
     expect(stopped?.status).toBe('stopped');
   });
 
+  it('should record a requested stop as stopped when the process exits with a code', async () => {
+    const info = await processManager.startProcess({
+      name: 'trapper',
+      command: '/bin/sh',
+      args: ['-c', 'trap "exit 1" TERM; while true; do sleep 0.1; done']
+    });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    await processManager.stopProcess(info.id);
+
+    const stopped = processManager.listProcesses().find(p => p.id === info.id);
+    expect(stopped?.status).toBe('stopped');
+    expect(processManager.getRunHistory(info.id)[0].stopReason).toBe('user');
+    expect(processManager.getCrashReports(info.id)).toEqual([]);
+  });
+
   it('should list processes', () => {
     const processes = processManager.listProcesses();
     expect(Array.isArray(processes)).toBe(true);
   });
-});
\ No newline at end of file
+
+  it('should reload process definitions after a restart', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-lifecycle-'));
+    const dbPath = path.join(dir, 'pm.db');
+    const logger = winston.createLogger({ silent: true });
+    const config = new ConfigManager();
+
+    const firstDb = new DatabaseManager(dbPath, logger);
+    const first = new ProcessManager(firstDb, logger, config, new LogManager(firstDb, logger));
+    const info = await first.startProcess({
+      name: 'persisted',
+      command: '/bin/sleep',
+      args: ['10'],
+      startOnBoot: true,
+      restartPolicy: { mode: 'always' }
+    });
+    await first.stopProcess(info.id);
+    firstDb.close();
+
+    const secondDb = new DatabaseManager(dbPath, logger);
+    const second = new ProcessManager(secondDb, logger, config, new LogManager(secondDb, logger));
+    try {
+      const reloaded = second.listProcesses().find(p => p.id === info.id);
+      expect(reloaded?.args).toEqual(['10']);
+      expect(reloaded?.restartPolicy).toEqual({ mode: 'always' });
+
+      const booted = await second.startBootProcesses();
+      expect(booted.map(p => p.id)).toEqual([info.id]);
+    } finally {
+      await second.stopProcess(info.id);
+      secondDb.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should update the definition of a stopped process without starting it', async () => {
+    const info = processManager.registerProcess({ name: 'job', command: '/bin/echo', args: ['one'] });
+    const updated = processManager.updateProcess(info.id, { args: ['two'], healthCheckCommand: '/bin/true' });
+
+    expect(updated).toMatchObject({ id: info.id, status: 'stopped', args: ['two'], healthCheckCommand: '/bin/true' });
+    expect(() => processManager.updateProcess(info.id, { command: '/opt/evil' })).toThrow(/Command not allowed/);
+  });
+
+  it('should run shell scripts only when every command in them is allowed', async () => {
+    const exited = new Promise(resolve => processManager.once('processExited', resolve));
+    const info = await processManager.startProcess({ name: 'script', command: 'GREETING=hi /bin/echo "$GREETING there" | /usr/bin/tr a-z A-Z', shell: true });
+
+    expect(await exited).toBe(info.id);
+    expect(processManager.listProcesses()[0]).toMatchObject({ shell: true, status: 'stopped' });
+    expect(() => processManager.registerProcess({ name: 'bad', command: '/bin/echo ok && /opt/evil', shell: true })).toThrow(/Command not allowed: \/opt\/evil/);
+    expect(() => processManager.registerProcess({ name: 'bad', command: '/bin/echo ok; kill 1', shell: true })).toThrow(/Dangerous command blocked: kill/);
+    expect(() => processManager.registerProcess({ name: 'bad', command: '/bin/echo', args: ['x'], shell: true })).toThrow(/put the whole script in command/);
+  });
+
+  it('should keep shell scripts on the PATH their commands were checked against', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-shell-'));
+    try {
+      expect(() => processManager.registerProcess({ name: 'bad', command: 'PATH=/tmp/evil echo hi', shell: true })).toThrow(/Changing PATH/);
+      expect(() => processManager.registerProcess({ name: 'bad', command: '/bin/echo hi', shell: true, env: { PATH: '/tmp/evil' } })).toThrow(/can't set PATH/);
+      expect(() => processManager.registerProcess({ name: 'bad', command: 'cd /tmp && ./evil', shell: true, cwd: dir })).toThrow(/after cd/);
+
+      fs.writeFileSync(path.join(dir, '.env'), 'PATH=/tmp/evil\n');
+      expect(() => processManager.registerProcess({ name: 'bad', command: '/bin/echo hi', shell: true, cwd: dir, envFiles: ['.env'] })).toThrow(/can't set PATH/);
+
+      // Env files are read again on every start
+      fs.writeFileSync(path.join(dir, '.env'), 'GREETING=hi\n');
+      const info = processManager.registerProcess({ name: 'script', command: '/bin/echo $GREETING', shell: true, cwd: dir, envFiles: ['.env'] });
+      fs.writeFileSync(path.join(dir, '.env'), 'PATH=/tmp/evil\n');
+      await expect(processManager.startProcess({ id: info.id, name: 'script', command: '/bin/echo $GREETING', shell: true, cwd: dir, envFiles: ['.env'] })).rejects.toThrow(/can't set PATH/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should run relative check commands from the process working directory', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-checks-'));
+    fs.mkdirSync(path.join(dir, 'scripts'));
+    fs.writeFileSync(path.join(dir, 'scripts', 'check.sh'), '#!/bin/sh\ntest -f ready.flag\n', { mode: 0o755 });
+    fs.writeFileSync(path.join(dir, 'ready.flag'), '');
+    process.env.PM_ALLOWED_COMMANDS = `/usr/bin,/bin,${dir}`;
+    const logger = winston.createLogger({ silent: true });
+    const checked = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    try {
+      const info = await checked.startProcess({
+        name: 'checked',
+        command: '/bin/sleep',
+        args: ['10'],
+        cwd: dir,
+        readiness: { type: 'command', command: './scripts/check.sh', intervalMs: 50 },
+        healthCheckCommand: './scripts/check.sh'
+      });
+
+      expect((await checked.waitForReady(info.id, 2000)).status).toBe('running');
+      expect((await checked.waitForHealthy(info.id, 2000)).healthStatus).toBe('healthy');
+    } finally {
+      await checked.shutdown();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should keep names unique per working directory', async () => {
+    const info = processManager.registerProcess({ name: 'api', command: '/bin/true', cwd: os.tmpdir() });
+
+    expect(() => processManager.registerProcess({ name: 'api', command: '/bin/echo', cwd: os.tmpdir() })).toThrow(/named "api" already exists/);
+    await expect(processManager.startProcess({ name: 'api', command: '/bin/echo', cwd: `${os.tmpdir()}/` })).rejects.toThrow(/already exists/);
+    expect(processManager.registerProcess({ name: 'api', command: '/bin/true', cwd: '/' }).id).not.toBe(info.id);
+    expect(processManager.updateProcess(info.id, { name: 'api', args: ['x'] }).args).toEqual(['x']);
+  });
+
+  it('should refuse to delete a running process unless forced', async () => {
+    const info = await processManager.startProcess({ name: 'server', command: '/bin/sleep', args: ['10'] });
+
+    await expect(processManager.deleteProcess(info.id)).rejects.toThrow(/is running/);
+    const result = await processManager.deleteProcess(info.id, { force: true });
+
+    expect(result.stop?.outcome).toBe('graceful');
+    expect(processManager.listProcesses()).toHaveLength(0);
+    const row = db.getDb().prepare('SELECT deleted_at FROM processes WHERE id = ?').get(info.id) as { deleted_at: number };
+    expect(row.deleted_at).toBeGreaterThan(0);
+  });
+
+  it('should purge the stored data of a deleted process', async () => {
+    const info = processManager.registerProcess({ name: 'old', command: '/bin/true' });
+    db.getStatement('insertError').run({ process_id: info.id, error_type: 'Test', message: 'boom', stack_trace: null, timestamp: Date.now() });
+
+    await processManager.deleteProcess(info.id, { purge: true });
+
+    expect(db.getDb().prepare('SELECT COUNT(*) AS c FROM processes').get()).toEqual({ c: 0 });
+    expect(db.getDb().prepare('SELECT COUNT(*) AS c FROM errors').get()).toEqual({ c: 0 });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import net from 'node:net';
+import { findListeningPorts, isPortListening, parseUrls } from '../src/process/ports';
+
+describe('Port Discovery', () => {
+  describe('parseUrls', () => {
+    it('should pick up dev server banners', () => {
+      expect(parseUrls('  \x1b[32m➜\x1b[39m  Local:   \x1b[36mhttp://localhost:5173/\x1b[39m')).toEqual(['http://localhost:5173/']);
+      expect(parseUrls('Serving HTTP on 0.0.0.0 port 8000 (http://0.0.0.0:8000/) ...')).toEqual(['http://localhost:8000/']);
+      expect(parseUrls('INFO:     Uvicorn running on http://127.0.0.1:8000 (Press CTRL+C to quit)')).toEqual(['http://127.0.0.1:8000']);
+      expect(parseUrls('Server listening on port 3000.')).toEqual(['http://localhost:3000']);
+    });
+
+    it('should ignore lines without an address', () => {
+      expect(parseUrls('compiled 42 modules in 300ms')).toEqual([]);
+      expect(parseUrls('see https://docs.example.com/guide for details')).toEqual([]);
+    });
+  });
+
+  it.runIf(process.platform === 'linux')('should map a PID to the ports it listens on', async () => {
+    const server = net.createServer().listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    try {
+      expect(findListeningPorts([process.pid]).get(process.pid)).toContain(port);
+      expect(isPortListening(port)).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+    expect(isPortListening(port)).toBe(false);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import net from 'node:net';
+import { validateReadiness, readinessUrl, probePort } from '../src/process/readiness';
+import { ReadinessSchema } from '../src/config/loader';
+
+describe('Readiness', () => {
+  it('should require the fields of each check type', () => {
+    expect(() => validateReadiness({ type: 'port' })).toThrow(/requires a port/);
+    expect(() => validateReadiness({ type: 'log' })).toThrow(/requires a pattern/);
+    expect(() => validateReadiness({ type: 'log', pattern: '(' })).toThrow();
+    expect(() => validateReadiness({ type: 'http', port: 3000 })).not.toThrow();
+  });
+
+  it('should only probe local hosts', () => {
+    for (const url of ['http://localhost:3000/', 'http://127.0.0.2:8080/health', 'http://[::1]:3000/', 'http://0.0.0.0:3000/']) {
+      expect(ReadinessSchema.safeParse({ type: 'http', url }).success).toBe(true);
+    }
+    expect(ReadinessSchema.safeParse({ type: 'http', url: 'http://example.com/health' }).success).toBe(false);
+    expect(ReadinessSchema.safeParse({ type: 'port', port: 5432, host: '10.0.0.5' }).success).toBe(false);
+    expect(() => validateReadiness({ type: 'http', url: 'https://169.254.169.254/latest' })).toThrow(/not local/);
+  });
+
+  it('should build the http url from port and path', () => {
+    expect(readinessUrl({ type: 'http', port: 3000, path: '/health' })).toBe('http://127.0.0.1:3000/health');
+    expect(readinessUrl({ type: 'http', url: 'http://localhost:8080/' })).toBe('http://localhost:8080/');
+  });
+
+  it('should detect a listening port', async () => {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as net.AddressInfo;
+    try {
+      expect(await probePort(port)).toBe(true);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+    expect(await probePort(port)).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { aggregateStatus, combineStops, parseReplicaId, replicaConfig } from '../src/process/replicas';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { HealthStatus, ProcessInfo, ProcessStatus } from '../src/types/process';
+
+describe('Replicas', () => {
+  it('should give each copy its own id, INSTANCE_INDEX and PORT', () => {
+    const owner: ProcessInfo = {
+      id: 'api', name: 'api', command: '/usr/bin/node', env: { NODE_ENV: 'test' }, instances: 3, basePort: 4000,
+      readiness: { type: 'port', port: 4000 }, labels: { tier: 'backend' }, groupId: 'g1',
+      status: ProcessStatus.STOPPED, createdAt: 0, restartCount: 0, healthStatus: HealthStatus.UNKNOWN
+    };
+    const copy = replicaConfig(owner, 2);
+    expect(copy).toMatchObject({ id: 'api~2', name: 'api#2', instances: undefined, labels: undefined, groupId: undefined });
+    expect(copy.env).toEqual({ NODE_ENV: 'test', INSTANCE_INDEX: '2', PORT: '4002' });
+    expect(copy.readiness?.port).toBe(4002);
+    expect(parseReplicaId('api~2')).toEqual({ ownerId: 'api', index: 2 });
+    expect(parseReplicaId('api')).toBeUndefined();
+  });
+
+  it('should report the most active status and combine stops', () => {
+    expect(aggregateStatus([ProcessStatus.CRASHED, ProcessStatus.RUNNING])).toBe(ProcessStatus.RUNNING);
+    expect(aggregateStatus([ProcessStatus.STOPPED, ProcessStatus.CRASHED])).toBe(ProcessStatus.CRASHED);
+    expect(aggregateStatus([])).toBe(ProcessStatus.STOPPED);
+
+    const stop = combineStops([
+      { outcome: 'graceful', signalsSent: ['SIGTERM'], elapsedMs: 20, signalled: [1], survivors: [] },
+      { outcome: 'escalated', signalsSent: ['SIGTERM', 'SIGKILL'], elapsedMs: 50, signalled: [2], survivors: [] }
+    ]);
+    expect(stop).toEqual({ outcome: 'escalated', signalsSent: ['SIGTERM', 'SIGKILL'], elapsedMs: 50, signalled: [1, 2], survivors: [] });
+  });
+
+  describe('ProcessManager', () => {
+    let db: DatabaseManager;
+    let processManager: ProcessManager;
+    const logger = winston.createLogger({ silent: true });
+
+    beforeEach(() => {
+      process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+      db = new DatabaseManager(':memory:', logger);
+      processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    });
+
+    afterEach(async () => {
+      await processManager.shutdown();
+      db.close();
+    });
+
+    it('should run, scale and stop the copies of a process with instances', async () => {
+      const info = await processManager.startProcess({ name: 'worker', command: '/bin/sleep', args: ['30'], instances: 2, basePort: 4100 });
+      expect(info.status).toBe(ProcessStatus.RUNNING);
+      expect(processManager.listReplicas(info.id).map(r => [r.name, r.env?.PORT, r.status])).toEqual([
+        ['worker#0', '4100', ProcessStatus.RUNNING],
+        ['worker#1', '4101', ProcessStatus.RUNNING]
+      ]);
+
+      const [listed] = processManager.withReplicas(processManager.listProcesses());
+      expect(listed.id).toBe(info.id);
+      expect(listed.replicas?.map(r => r.instanceIndex)).toEqual([0, 1]);
+
+      await processManager.scaleProcess(info.id, 3);
+      expect(processManager.listReplicas(info.id).map(r => r.status)).toEqual([ProcessStatus.RUNNING, ProcessStatus.RUNNING, ProcessStatus.RUNNING]);
+      await processManager.scaleProcess(info.id, 1);
+      expect(processManager.listReplicas(info.id).map(r => r.id)).toEqual([`${info.id}~0`]);
+
+      const stop = await processManager.stopProcess(info.id);
+      expect(stop.outcome).toBe('graceful');
+      expect(processManager.listProcesses().find(p => p.id === info.id)?.status).toBe(ProcessStatus.STOPPED);
+    });
+
+    it('should recreate a copy that was deleted without purging', async () => {
+      const info = await processManager.startProcess({ name: 'worker', command: '/bin/sleep', args: ['30'], instances: 2 });
+      await processManager.deleteProcess(`${info.id}~1`, { force: true });
+      await processManager.scaleProcess(info.id, 1);
+
+      await processManager.scaleProcess(info.id, 2);
+      expect(processManager.listReplicas(info.id).map(r => [r.id, r.status])).toEqual([
+        [`${info.id}~0`, ProcessStatus.RUNNING],
+        [`${info.id}~1`, ProcessStatus.RUNNING]
+      ]);
+      const row = db.getDb().prepare('SELECT deleted_at FROM processes WHERE id = ?').get(`${info.id}~1`) as { deleted_at: number | null };
+      expect(row.deleted_at).toBeNull();
+    });
+
+    it('should reject scaling a process without instances and basePort without instances', async () => {
+      const plain = await processManager.startProcess({ name: 'plain', command: '/bin/sleep', args: ['30'] });
+      await expect(processManager.scaleProcess(plain.id, 2)).rejects.toThrow(/doesn't run instances/);
+      await expect(processManager.startProcess({ name: 'bad', command: '/bin/true', basePort: 4000 })).rejects.toThrow(/basePort without instances/);
+    });
+  });
+});
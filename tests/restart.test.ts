@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveRestartPolicy,
+  shouldRestart,
+  computeBackoffDelay,
+  DEFAULT_RESTART_POLICY
+} from '../src/process/restart';
+
+describe('Restart Policy', () => {
+  const crash = { code: 1, signal: null, requested: false, uptimeMs: 500 };
+  const cleanExit = { code: 0, signal: null, requested: false, uptimeMs: 500 };
+
+  describe('resolveRestartPolicy', () => {
+    it('should map autoRestart to on-failure with defaults', () => {
+      const policy = resolveRestartPolicy({ autoRestart: true });
+      expect(policy.mode).toBe('on-failure');
+      expect(policy.maxRetries).toBe(DEFAULT_RESTART_POLICY.maxRetries);
+    });
+
+    it('should default to never', () => {
+      expect(resolveRestartPolicy({}).mode).toBe('never');
+    });
+
+    it('should prefer an explicit policy over autoRestart', () => {
+      const policy = resolveRestartPolicy({ autoRestart: true, restartPolicy: { mode: 'never', maxRetries: 2 } });
+      expect(policy.mode).toBe('never');
+      expect(policy.maxRetries).toBe(2);
+      expect(policy.backoffMs).toBe(DEFAULT_RESTART_POLICY.backoffMs);
+    });
+  });
+
+  describe('shouldRestart', () => {
+    it('should restart failures only for on-failure', () => {
+      const policy = resolveRestartPolicy({ restartPolicy: { mode: 'on-failure' } });
+      expect(shouldRestart(policy, crash)).toBe(true);
+      expect(shouldRestart(policy, cleanExit)).toBe(false);
+      expect(shouldRestart(policy, { ...cleanExit, code: null, signal: 'SIGKILL' })).toBe(true);
+    });
+
+    it('should restart clean exits for always', () => {
+      const policy = resolveRestartPolicy({ restartPolicy: { mode: 'always' } });
+      expect(shouldRestart(policy, cleanExit)).toBe(true);
+    });
+
+    it('should never restart a requested stop', () => {
+      const policy = resolveRestartPolicy({ restartPolicy: { mode: 'always' } });
+      expect(shouldRestart(policy, { ...crash, signal: 'SIGTERM', requested: true })).toBe(false);
+    });
+  });
+
+  describe('computeBackoffDelay', () => {
+    const policy = resolveRestartPolicy({ restartPolicy: { mode: 'on-failure', backoffMs: 100, maxBackoffMs: 1000 } });
+    const noJitter = () => 0.5;
+
+    it('should double the delay per attempt', () => {
+      expect(computeBackoffDelay(policy, 1, noJitter)).toBe(100);
+      expect(computeBackoffDelay(policy, 2, noJitter)).toBe(200);
+      expect(computeBackoffDelay(policy, 3, noJitter)).toBe(400);
+    });
+
+    it('should cap the delay at maxBackoffMs', () => {
+      expect(computeBackoffDelay(policy, 10, noJitter)).toBe(1000);
+    });
+
+    it('should apply bounded jitter', () => {
+      expect(computeBackoffDelay(policy, 1, () => 0)).toBe(80);
+      expect(computeBackoffDelay(policy, 1, () => 1)).toBe(120);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { summarizeRuns } from '../src/process/runs';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { ProcessRun } from '../src/types/process';
+
+describe('Run History', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+
+  const waitForExit = (processId: string) => new Promise<void>(resolve => {
+    const onExit = (id: string) => {
+      if (id !== processId) return;
+      processManager.off('processExited', onExit);
+      resolve();
+    };
+    processManager.on('processExited', onExit);
+  });
+
+  beforeEach(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    const logger = winston.createLogger({ silent: true });
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+  });
+
+  afterEach(async () => {
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should record a run per start with its exit and stop reason', async () => {
+    const info = await processManager.startProcess({ name: 'job', command: '/bin/sh', args: ['-c', 'exit 2'] });
+    await waitForExit(info.id);
+    await processManager.startProcess({ id: info.id, name: 'job', command: '/bin/sleep', args: ['10'] });
+    await processManager.stopProcess(info.id);
+
+    const [stopped, crashed] = processManager.getRunHistory(info.id);
+    expect(crashed).toMatchObject({ stopReason: 'crash', exitCode: 2 });
+    expect(stopped).toMatchObject({ stopReason: 'user', signal: 'SIGTERM' });
+    expect(stopped.configHash).not.toBe(crashed.configHash);
+    expect(stopped.durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should record who stopped the process', async () => {
+    const info = await processManager.startProcess({ name: 'api', command: '/bin/sleep', args: ['10'] });
+    await processManager.restartProcess(info.id, undefined, 'watchdog');
+
+    expect(processManager.getRunHistory(info.id, { stopReason: 'watchdog' })).toHaveLength(1);
+    const row = db.getDb().prepare('SELECT stopped_at FROM processes WHERE id = ?').get(info.id) as { stopped_at: number };
+    expect(row.stopped_at).toBeGreaterThan(0);
+  });
+
+  it('should close the runs the previous server never saw end on boot', async () => {
+    const lost = await processManager.startProcess({ name: 'lost', command: '/bin/sleep', args: ['10'] });
+    const stopped = await processManager.startProcess({ name: 'stopped', command: '/bin/sleep', args: ['10'] });
+    const [stoppedRun] = processManager.getRunHistory(stopped.id);
+    db.getDb().prepare('UPDATE processes SET stopped_at = ? WHERE id = ?').run(stoppedRun.startedAt + 5, stopped.id);
+
+    const bootedAt = Date.now();
+    const rebooted = new ProcessManager(db, winston.createLogger({ silent: true }), new ConfigManager(), new LogManager(db, winston.createLogger({ silent: true })));
+    try {
+      const [lostRun] = rebooted.getRunHistory(lost.id);
+      expect(lostRun.stopReason).toBe('shutdown');
+      expect(lostRun.stoppedAt).toBeGreaterThanOrEqual(bootedAt);
+      expect(rebooted.getRunHistory(stopped.id)[0]).toMatchObject({ stopReason: 'shutdown', stoppedAt: stoppedRun.startedAt + 5, durationMs: 5 });
+
+      db.cleanupOldData(-1);
+      expect(rebooted.getRunHistory(lost.id)).toEqual([]);
+    } finally {
+      await rebooted.shutdown();
+    }
+  });
+
+  it('should summarize runs by stop reason', () => {
+    const run = (stopReason: ProcessRun['stopReason'], durationMs?: number): ProcessRun => ({
+      id: 1, processId: 'p1', configHash: 'abc', startedAt: 1000, stoppedAt: durationMs !== undefined ? 1000 + durationMs : undefined, stopReason, durationMs
+    });
+
+    const summary = summarizeRuns([run('crash', 100), run('crash', 300), run('user', 200), run(undefined)]);
+    expect(summary).toMatchObject({ runs: 4, running: 1, byStopReason: { crash: 2, user: 1 }, averageDurationMs: 200, lastCrashAt: 1300 });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { parseCron, nextCronRun, validateSchedule } from '../src/scheduler/cron';
+import { SchedulerManager } from '../src/scheduler/manager';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+
+describe('Cron Expressions', () => {
+  const at = (iso: string) => Date.parse(iso);
+  const next = (expr: string, iso: string, tz?: string) => new Date(nextCronRun(expr, at(iso), tz)).toISOString();
+
+  it('should parse lists, ranges, steps and names', () => {
+    const cron = parseCron('0,30 9-17/4 * jan-mar mon-fri');
+    expect([...cron.minutes]).toEqual([0, 30]);
+    expect([...cron.hours]).toEqual([9, 13, 17]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => parseCron('* * *')).toThrow(/expected 5 fields/);
+    expect(() => parseCron('60 * * * *')).toThrow(/Invalid minute value/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/Invalid step/);
+    expect(() => validateSchedule({ cron: '0 0 30 2 *' })).toThrow(/never matches/);
+    expect(() => validateSchedule({ cron: '@daily', timezone: 'Mars/Olympus' })).toThrow(/Invalid timezone/);
+  });
+
+  it('should find the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2026-01-01T10:15:00Z')).toBe('2026-01-01T10:30:00.000Z');
+    expect(next('@daily', '2026-01-01T10:15:00Z')).toBe('2026-01-02T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // 2026-01-05 is a Monday, before the 15th
+    expect(next('0 0 15 * mon', '2026-01-01T00:00:00Z')).toBe('2026-01-05T00:00:00.000Z');
+  });
+
+  it('should evaluate in the schedule timezone across DST changes', () => {
+    expect(next('0 9 * * *', '2026-01-01T00:00:00Z', 'America/New_York')).toBe('2026-01-01T14:00:00.000Z');
+    expect(next('0 9 * * *', '2026-07-01T00:00:00Z', 'America/New_York')).toBe('2026-07-01T13:00:00.000Z');
+    // 02:30 doesn't exist on the spring-forward day, so the next run is the day after
+    expect(next('30 2 * * *', '2026-03-08T00:00:00Z', 'America/New_York')).toBe('2026-03-09T06:30:00.000Z');
+  });
+});
+
+describe('Scheduler Manager', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+  let scheduler: SchedulerManager;
+
+  beforeEach(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    const logger = winston.createLogger({ silent: true });
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    scheduler = new SchedulerManager(db, processManager, logger);
+    scheduler.start();
+  });
+
+  afterEach(async () => {
+    scheduler.stop();
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should register scheduled processes without starting them', () => {
+    const info = processManager.registerProcess({ name: 'nightly', command: '/bin/true', schedule: { cron: '@daily' } });
+    const [schedule] = scheduler.listSchedules();
+
+    expect(info.status).toBe('stopped');
+    expect(schedule).toMatchObject({ processId: info.id, cron: '@daily', timezone: 'UTC', overlap: 'skip', paused: false, runCount: 0 });
+    expect(schedule.nextRunAt).toBeGreaterThan(Date.now());
+  });
+
+  it('should apply the overlap policy to manual triggers', async () => {
+    const skip = processManager.registerProcess({ name: 'skip', command: '/bin/sleep', args: ['5'], schedule: { cron: '@daily' } });
+    expect(await scheduler.trigger(skip.id)).toMatchObject({ outcome: 'started', instanceId: skip.id });
+    expect(await scheduler.trigger(skip.id)).toMatchObject({ outcome: 'skipped' });
+
+    const allow = processManager.registerProcess({ name: 'allow', command: '/bin/sleep', args: ['5'], schedule: { cron: '@daily', overlap: 'allow' } });
+    await scheduler.trigger(allow.id);
+    expect(await scheduler.trigger(allow.id)).toMatchObject({ outcome: 'started', instanceId: `${allow.id}~1` });
+    expect(scheduler.getSchedule(allow.id).running).toHaveLength(2);
+    expect(scheduler.getSchedule(allow.id).runCount).toBe(2);
+  });
+
+  it('should re-link only the parallel instances of a schedule on start', async () => {
+    processManager.registerProcess({ id: 'nightly', name: 'nightly', command: '/bin/sleep', args: ['5'], schedule: { cron: '@daily', overlap: 'allow' } });
+    await processManager.startProcess({ id: 'nightly~1', name: 'nightly#1', command: '/bin/sleep', args: ['5'] });
+    await processManager.startProcess({ id: 'nightlyx', name: 'unrelated', command: '/bin/sleep', args: ['5'] });
+
+    scheduler.stop();
+    scheduler = new SchedulerManager(db, processManager, winston.createLogger({ silent: true }));
+    scheduler.start();
+
+    expect(scheduler.getSchedule('nightly').running).toEqual(['nightly~1']);
+  });
+
+  it('should persist pause state and clear the next run', () => {
+    const info = processManager.registerProcess({ name: 'job', command: '/bin/true', schedule: { cron: '@hourly' } });
+    const paused = scheduler.pause(info.id);
+
+    expect(paused.nextRunAt).toBeUndefined();
+    const row = db.getDb().prepare('SELECT paused FROM schedules WHERE process_id = ?').get(info.id) as { paused: number };
+    expect(row.paused).toBe(1);
+    expect(scheduler.resume(info.id).nextRunAt).toBeGreaterThan(Date.now());
+  });
+});
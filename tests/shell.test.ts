@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { assertShellEnv, shellCommands, splitArgs } from '../src/process/shell';
+
+describe('Shell parsing', () => {
+  it('should split arguments honoring quotes and escapes', () => {
+    expect(splitArgs(`curl -sf "http://localhost:3000/health?full=1"`)).toEqual(['curl', '-sf', 'http://localhost:3000/health?full=1']);
+    expect(splitArgs(`node -e 'process.exit(0)' a\\ b "say \\"hi\\""`)).toEqual(['node', '-e', 'process.exit(0)', 'a b', 'say "hi"']);
+    expect(() => splitArgs('echo "oops')).toThrow('Unterminated double quote');
+  });
+
+  it('should list the commands a script invokes', () => {
+    expect(shellCommands('npm run build && npm start')).toEqual(['npm', 'npm']);
+    expect(shellCommands('FOO=1 BAR="a b" node server.js 2>&1 | tee out.log')).toEqual(['node', 'tee']);
+    expect(shellCommands('cd web; pnpm dev > dev.log &\necho started # && rm -rf /')).toEqual(['pnpm']);
+  });
+
+  it('should reject constructs whose commands cannot be checked', () => {
+    expect(() => shellCommands('echo $(whoami)')).toThrow('Command substitution');
+    expect(() => shellCommands('echo `whoami`')).toThrow('Command substitution');
+    expect(() => shellCommands('(cd web && npm start)')).toThrow('Subshells');
+    expect(() => shellCommands('if true; then npm start; fi')).toThrow('"if" is not supported');
+    expect(() => shellCommands('eval "$CMD"')).toThrow('"eval" is not supported');
+    expect(() => shellCommands('$RUNNER start')).toThrow('Command names must be literal');
+  });
+
+  it('should reject scripts that change where commands are looked up', () => {
+    expect(() => shellCommands('PATH=/tmp/evil node -v')).toThrow(/Changing PATH is not supported/);
+    expect(() => shellCommands('export PATH=/tmp/evil; node -v')).toThrow(/Changing PATH is not supported/);
+    expect(() => shellCommands('export FOO=1 PATH; node -v')).toThrow(/Changing PATH is not supported/);
+    expect(() => shellCommands('unset PATH && node -v')).toThrow(/Changing PATH is not supported/);
+    expect(() => shellCommands('read PATH < path.txt; node -v')).toThrow(/Changing PATH is not supported/);
+    expect(() => shellCommands('export "$SETTING"; node -v')).toThrow(/Arguments of export must be literal/);
+    expect(shellCommands('export NODE_ENV=production; echo $PATH && node server.js')).toEqual(['node']);
+  });
+
+  it('should reject relative commands after cd', () => {
+    expect(() => shellCommands('cd other && ./x')).toThrow(/Relative command \.\/x after cd/);
+    expect(() => shellCommands('cd other; bin/x')).toThrow(/Relative command bin\/x after cd/);
+    expect(shellCommands('./build.sh && cd dist && /usr/bin/node server.js && npm start')).toEqual(['./build.sh', '/usr/bin/node', 'npm']);
+  });
+
+  it('should reject env overrides of PATH', () => {
+    expect(() => assertShellEnv({ PATH: '/tmp/evil' })).toThrow(/can't set PATH/);
+    expect(() => assertShellEnv({ NODE_ENV: 'test', PATH: process.env.PATH! })).not.toThrow();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import winston from 'winston';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { ProcessStatus } from '../src/types/process';
+
+// Scheduling state from /proc/<pid>/stat: S sleeping, T stopped
+const procState = (pid: number) => fs.readFileSync(`/proc/${pid}/stat`, 'utf8').split(') ')[1][0];
+
+describe.runIf(process.platform === 'linux')('Signals', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+  const logger = winston.createLogger({ silent: true });
+
+  beforeEach(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+  });
+
+  afterEach(async () => {
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should pause and resume the process', async () => {
+    const info = await processManager.startProcess({ name: 'worker', command: '/bin/sleep', args: ['30'] });
+
+    expect(processManager.pauseProcess(info.id).status).toBe(ProcessStatus.PAUSED);
+    expect(procState(info.pid!)).toBe('T');
+    expect(() => processManager.pauseProcess(info.id)).toThrow('Only running processes can be paused');
+
+    expect(processManager.resumeProcess(info.id).status).toBe(ProcessStatus.RUNNING);
+    expect(procState(info.pid!)).not.toBe('T');
+  });
+
+  it('should stop a paused process gracefully', async () => {
+    const info = await processManager.startProcess({ name: 'worker', command: '/bin/sleep', args: ['30'] });
+    processManager.pauseProcess(info.id);
+
+    const result = await processManager.stopProcess(info.id);
+    expect(result.outcome).toBe('graceful');
+    expect(processManager.listProcesses()[0].status).toBe(ProcessStatus.STOPPED);
+  });
+
+  it('should leave pausing to pause_process', async () => {
+    const info = await processManager.startProcess({ name: 'worker', command: '/bin/sleep', args: ['30'] });
+    expect(() => processManager.signalProcess(info.id, 'SIGSTOP')).toThrow('Use pause_process and resume_process');
+    expect(() => processManager.signalProcess(info.id, 'SIGNOPE')).toThrow('Invalid signal');
+    expect(processManager.signalProcess(info.id, 'SIGUSR2', 'process')).toEqual([info.pid]);
+  });
+});
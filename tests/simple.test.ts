@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import winston from 'winston';
+import { formatDuration, parseDuration } from '../src/utils/duration';
+import { registerSimpleTools } from '../src/tools/simple';
+import { callTool } from '../src/tools/registry';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+
+describe('Durations', () => {
+  it('should format the two largest units', () => {
+    expect(formatDuration(400)).toBe('0s');
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(5 * 60_000)).toBe('5m');
+    expect(formatDuration(2 * 3600_000 + 3 * 60_000 + 5_000)).toBe('2h 3m');
+    expect(formatDuration(26 * 3600_000)).toBe('1d 2h');
+  });
+
+  it('should parse compound durations and reject garbage', () => {
+    expect(parseDuration('5m')).toBe(300_000);
+    expect(parseDuration('1h 30m')).toBe(5_400_000);
+    expect(parseDuration('250ms')).toBe(250);
+    expect(() => parseDuration('5 minutes')).toThrow('Invalid duration');
+    expect(() => parseDuration('')).toThrow('Invalid duration');
+  });
+});
+
+describe('Simple Tools', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+
+  // The tool registry is module-global, so register once against a shared manager
+  beforeAll(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    const logger = winston.createLogger({ silent: true });
+    db = new DatabaseManager(':memory:', logger);
+    const logManager = new LogManager(db, logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), logManager);
+    registerSimpleTools(processManager, logManager, logger);
+  });
+
+  afterAll(async () => {
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should start idempotently and address the process by name', async () => {
+    const first = await callTool('start', { name: 'sleeper', command: '/bin/sleep', args: ['30'] });
+    expect(first.isError).toBeFalsy();
+    const again = await callTool('start', { name: 'sleeper', command: '/bin/sleep', args: ['30'] });
+    expect(again.content[0].text).toContain('already running');
+    expect(processManager.listProcesses().filter(p => p.name === 'sleeper')).toHaveLength(1);
+
+    const conflict = await callTool('start', { name: 'sleeper', command: '/bin/sleep', args: ['60'] });
+    expect(conflict.isError).toBe(true);
+
+    const list = JSON.parse((await callTool('list', {})).content[1].text);
+    expect(list).toContainEqual(expect.objectContaining({ name: 'sleeper', command: 'sleep 30', status: 'running' }));
+
+    await callTool('stop', { name: 'sleeper' });
+    const restarted = await callTool('start', { name: 'sleeper' });
+    expect(JSON.parse(restarted.content[1].text)).toMatchObject({ status: 'running', action: 'restarted' });
+    expect(processManager.listProcesses().filter(p => p.name === 'sleeper')).toHaveLength(1);
+    await callTool('stop', { name: 'sleeper' });
+  });
+
+  it('should keep names separate per working directory', async () => {
+    await callTool('start', { name: 'web', command: '/bin/sleep', args: ['30'], cwd: '/tmp' });
+    await callTool('start', { name: 'web', command: '/bin/sleep', args: ['30'], cwd: '/' });
+    expect(processManager.listProcesses().filter(p => p.name === 'web')).toHaveLength(2);
+
+    const ambiguous = await callTool('stop', { name: 'web' });
+    expect(ambiguous.isError).toBe(true);
+    expect(ambiguous.content[0].text).toContain('pass cwd');
+
+    expect((await callTool('stop', { name: 'web', cwd: '/tmp' })).isError).toBeFalsy();
+    expect((await callTool('stop', { name: 'web', cwd: '/' })).isError).toBeFalsy();
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { resolveStopPlan, DEFAULT_STOP_TIMEOUT_MS } from '../src/process/stop';
+
+describe('Stop Plan', () => {
+  it('should default to SIGTERM then SIGKILL', () => {
+    expect(resolveStopPlan({})).toEqual({ signals: ['SIGTERM', 'SIGKILL'], timeoutMs: DEFAULT_STOP_TIMEOUT_MS });
+  });
+
+  it('should send the escalation list after the stop signal', () => {
+    const plan = resolveStopPlan({ stopSignal: 'SIGINT', stopTimeoutMs: 30000, stopEscalation: ['SIGTERM'] });
+    expect(plan.signals).toEqual(['SIGINT', 'SIGTERM', 'SIGKILL']);
+    expect(plan.timeoutMs).toBe(30000);
+  });
+
+  it('should not append SIGKILL twice', () => {
+    expect(resolveStopPlan({ stopSignal: 'SIGQUIT', stopEscalation: ['SIGKILL'] }).signals).toEqual(['SIGQUIT', 'SIGKILL']);
+  });
+
+  it('should reject unknown signals', () => {
+    expect(() => resolveStopPlan({ stopSignal: 'SIGNOPE' })).toThrow(/Invalid stop signal/);
+  });
+});
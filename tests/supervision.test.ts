@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { spawn } from 'node:child_process';
+import { isPidAlive, isSameProcess, readStartTicks, listDescendants, listProcessGroup } from '../src/process/procfs';
+import { FileTailer } from '../src/process/tail';
+
+describe('Detached Supervision', () => {
+  describe('procfs', () => {
+    it('should report our own process as alive', () => {
+      expect(isPidAlive(process.pid)).toBe(true);
+      expect(isSameProcess(process.pid, readStartTicks(process.pid))).toBe(true);
+    });
+
+    it.runIf(process.platform === 'linux')('should reject a PID whose start time differs', () => {
+      const ticks = readStartTicks(process.pid);
+      expect(ticks).toBeTypeOf('number');
+      expect(isSameProcess(process.pid, (ticks as number) + 1)).toBe(false);
+    });
+
+    it.runIf(process.platform === 'linux')('should find grandchildren in the group and by descendant walk', async () => {
+      const child = spawn('/bin/sh', ['-c', 'sleep 30 & sleep 30; wait'], { detached: true, stdio: 'ignore' });
+      try {
+        await new Promise(resolve => setTimeout(resolve, 200));
+        const pid = child.pid as number;
+        expect(listDescendants(pid)).toHaveLength(2);
+        expect(listProcessGroup(pid).sort()).toEqual([pid, ...listDescendants(pid)].sort());
+      } finally {
+        process.kill(-(child.pid as number), 'SIGKILL');
+      }
+    });
+  });
+
+  describe('FileTailer', () => {
+    let dir: string;
+    let tailer: FileTailer | undefined;
+
+    afterEach(() => {
+      tailer?.stop();
+      if (dir) fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should only emit content appended after start', async () => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-tail-'));
+      const file = path.join(dir, 'out.log');
+      fs.writeFileSync(file, 'before restart\n');
+
+      const chunks: string[] = [];
+      tailer = new FileTailer(file, (chunk) => chunks.push(chunk));
+      tailer.start(true, 20);
+
+      fs.appendFileSync(file, 'after restart\n');
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(chunks.join('')).toBe('after restart\n');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import os from 'node:os';
+import { MAX_TASK_RECORDS, OutputCapture } from '../src/process/task';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { registerLifecycleTools } from '../src/tools/lifecycle';
+import { callTool } from '../src/tools/registry';
+
+describe('Output Capture', () => {
+  it('should keep everything while the output is short', () => {
+    const capture = new OutputCapture(2, 2);
+    capture.push('one\ntwo');
+    capture.push('three');
+
+    expect(capture.toString()).toBe('one\ntwo\nthree');
+    expect(capture.truncated).toBe(false);
+  });
+
+  it('should keep the head and tail and count the omitted lines', () => {
+    const capture = new OutputCapture(2, 2);
+    for (let i = 1; i <= 10; i++) capture.push(`line ${i}`);
+
+    expect(capture.toString()).toBe('line 1\nline 2\n... 6 lines omitted ...\nline 9\nline 10');
+    expect(capture.lineCount).toBe(10);
+    expect(capture.truncated).toBe(true);
+  });
+});
+
+describe('Task Runs', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+
+  beforeEach(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    const logger = winston.createLogger({ silent: true });
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+  });
+
+  afterEach(async () => {
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should return the exit code and output of a finished task', async () => {
+    const result = await processManager.runTask({ name: 'task', command: '/bin/sh', args: ['-c', 'echo out; echo err >&2; exit 3'] });
+
+    expect(result).toMatchObject({ status: 'completed', exitCode: 3, signal: null, stdout: 'out', stderr: 'err', truncated: false });
+    expect(processManager.listProcesses().find(p => p.id === result.processId)?.status).toBe('crashed');
+  });
+
+  it('should stop a task that outlives its timeout', async () => {
+    const result = await processManager.runTask({ name: 'slow', command: '/bin/sleep', args: ['10'] }, { timeoutMs: 200 });
+
+    expect(result).toMatchObject({ status: 'timed_out', exitCode: null, signal: 'SIGTERM' });
+  });
+
+  it('should leave a detached task running after the timeout', async () => {
+    const result = await processManager.runTask(
+      { name: 'bg', command: '/bin/sh', args: ['-c', 'echo started; sleep 10'] },
+      { timeoutMs: 300, detach: true }
+    );
+
+    expect(result).toMatchObject({ status: 'detached', exitCode: null, stdout: 'started' });
+    expect(processManager.listProcesses().find(p => p.id === result.processId)?.status).toBe('running');
+  });
+
+  it('should refuse to run a task over a process it did not create', async () => {
+    const service = processManager.registerProcess({ name: 'api', command: '/bin/sleep', args: ['10'], labels: { tier: 'backend' } });
+
+    await expect(processManager.runTask({ id: service.id, name: 'api', command: '/bin/true' })).rejects.toThrow(/not created by run_task/);
+    expect(processManager.listProcesses().find(p => p.id === service.id)).toMatchObject({ command: '/bin/sleep', labels: { tier: 'backend' } });
+  });
+
+  it('should purge the oldest finished task records past the limit', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < MAX_TASK_RECORDS + 2; i++) {
+      ids.push((await processManager.runTask({ name: `task ${i}`, command: '/bin/true' })).processId);
+    }
+
+    const tasks = processManager.listProcesses().filter(p => p.task);
+    expect(tasks).toHaveLength(MAX_TASK_RECORDS);
+    expect(tasks.map(p => p.id)).not.toContain(ids[0]);
+    expect(tasks.map(p => p.id)).toContain(ids[ids.length - 1]);
+  });
+});
+
+describe('run_task tool', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+
+  // The tool registry is module-global, so register once against a shared manager
+  beforeAll(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    const logger = winston.createLogger({ silent: true });
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    registerLifecycleTools(processManager, logger);
+  });
+
+  afterAll(async () => {
+    await processManager.shutdown();
+    db.close();
+  });
+
+  const run = async (args: Record<string, unknown>) => {
+    const response = await callTool('run_task', args);
+    return { response, result: response.isError ? undefined : JSON.parse(response.content[1].text) };
+  };
+
+  it('should reuse a task record only for the same name and working directory', async () => {
+    const first = await run({ name: 'build', command: '/bin/true', cwd: os.tmpdir() });
+    const again = await run({ name: 'build', command: '/bin/true', cwd: os.tmpdir() });
+    const elsewhere = await run({ name: 'build', command: '/bin/true', cwd: '/' });
+
+    expect(again.result.processId).toBe(first.result.processId);
+    expect(elsewhere.result.processId).not.toBe(first.result.processId);
+  });
+
+  it('should not overwrite a service with the same name', async () => {
+    const service = processManager.registerProcess({ name: 'web', command: '/bin/sleep', args: ['10'], cwd: os.tmpdir() });
+    const { response } = await run({ name: 'web', command: '/bin/true', cwd: os.tmpdir() });
+
+    expect(response.isError).toBe(true);
+    expect(response.content[0].text).toContain('not created by run_task');
+    expect(processManager.listProcesses().find(p => p.id === service.id)?.command).toBe('/bin/sleep');
+  });
+});
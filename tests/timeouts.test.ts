@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import winston from 'winston';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+import { readCpuTicks } from '../src/process/procfs';
+import { ProcessStatus } from '../src/types/process';
+
+describe('Process Timeouts', () => {
+  let db: DatabaseManager;
+  let processManager: ProcessManager;
+  const logger = winston.createLogger({ silent: true });
+
+  beforeEach(() => {
+    process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+    process.env.PM_DEFAULT_IDLE_TIMEOUT_MS = '600000';
+    db = new DatabaseManager(':memory:', logger);
+    processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+  });
+
+  afterEach(async () => {
+    delete process.env.PM_DEFAULT_IDLE_TIMEOUT_MS;
+    await processManager.shutdown();
+    db.close();
+  });
+
+  it('should fill in server defaults only where nothing was set', () => {
+    expect(processManager.withDefaultTimeouts({ name: 'watch', command: '/bin/true' })).toMatchObject({ idleTimeoutMs: 600000, maxRuntimeMs: undefined });
+    expect(processManager.withDefaultTimeouts({ name: 'tunnel', command: '/bin/true', idleTimeoutMs: 0 }).idleTimeoutMs).toBe(0);
+  });
+
+  it('should stop a process after maxRuntimeMs', async () => {
+    const info = await processManager.startProcess({ name: 'watch', command: '/bin/sleep', args: ['60'], maxRuntimeMs: 500 });
+
+    const deadline = Date.now() + 8000;
+    while (processManager.listProcesses()[0].status === ProcessStatus.RUNNING && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 200));
+    }
+    expect(processManager.listProcesses()[0].status).toBe(ProcessStatus.STOPPED);
+    expect(processManager.getRunHistory(info.id)[0].stopReason).toBe('max_runtime');
+  }, 10000);
+
+  it.runIf(process.platform === 'linux')('should read CPU ticks from /proc', () => {
+    expect(readCpuTicks(process.pid)).toBeGreaterThanOrEqual(0);
+    expect(readCpuTicks(2 ** 22 + 1)).toBeNull();
+  });
+});
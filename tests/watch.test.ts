@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import winston from 'winston';
+import { DEFAULT_WATCH_IGNORE, describeChanges, isIgnored, validateWatch } from '../src/process/watch';
+import { ProcessManager } from '../src/process/manager';
+import { DatabaseManager } from '../src/database/manager';
+import { ConfigManager } from '../src/config/manager';
+import { LogManager } from '../src/logs/manager';
+
+describe('File watching', () => {
+  it('should match ignore patterns like .gitignore', () => {
+    expect(isIgnored('node_modules/pkg/index.js', DEFAULT_WATCH_IGNORE)).toBe(true);
+    expect(isIgnored('logs/server.log', DEFAULT_WATCH_IGNORE)).toBe(true);
+    expect(isIgnored('src/main.go', DEFAULT_WATCH_IGNORE)).toBe(false);
+    expect(isIgnored('dist/app.js', ['dist/**'])).toBe(true);
+    expect(isIgnored('build/tmp/out.o', ['build/'])).toBe(true);
+    expect(isIgnored('cmd/api/testdata/x.json', ['cmd/*/testdata'])).toBe(true);
+    expect(isIgnored('src/dist/app.js', ['dist/**'])).toBe(false);
+  });
+
+  it('should keep watch paths under the working directory', () => {
+    expect(() => validateWatch({ paths: ['src', './cmd/api'] }, '/srv/app')).not.toThrow();
+    expect(() => validateWatch({ paths: ['../shared'] }, '/srv/app')).toThrow(/outside the working directory/);
+    expect(() => validateWatch({ restartSignal: 'SIGNOPE' }, '/srv/app')).toThrow(/Invalid restart signal/);
+  });
+
+  it('should list a few changed files', () => {
+    expect(describeChanges(['a.go', 'b.go'])).toBe('a.go, b.go');
+    expect(describeChanges(['1', '2', '3', '4', '5', '6', '7'])).toBe('1, 2, 3, 4, 5 and 2 more');
+  });
+
+  describe('ProcessManager', () => {
+    let db: DatabaseManager;
+    let processManager: ProcessManager;
+    let dir: string;
+    const logger = winston.createLogger({ silent: true });
+
+    beforeEach(() => {
+      process.env.PM_ALLOWED_COMMANDS = '/usr/bin,/bin';
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pm-watch-'));
+      fs.mkdirSync(path.join(dir, 'src'));
+      db = new DatabaseManager(':memory:', logger);
+      processManager = new ProcessManager(db, logger, new ConfigManager(), new LogManager(db, logger));
+    });
+
+    afterEach(async () => {
+      await processManager.shutdown();
+      db.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should restart once for a burst of changes', async () => {
+      const info = await processManager.startProcess({
+        name: 'server',
+        command: '/bin/sleep',
+        args: ['30'],
+        cwd: dir,
+        watch: { paths: ['src'], debounceMs: 50, restartSignal: 'SIGINT' }
+      });
+      let starts = 0;
+      processManager.on('processStarted', () => starts++);
+
+      for (let i = 0; i < 20; i++) fs.writeFileSync(path.join(dir, 'src', `file${i}.go`), 'package main');
+      await new Promise(resolve => setTimeout(resolve, 1000));
+
+      expect(starts).toBe(1);
+      const [current, previous] = processManager.getRunHistory(info.id);
+      expect(previous.stopReason).toBe('watch');
+      expect(previous.signal).toBe('SIGINT');
+      expect(current.stoppedAt).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateSample, resolveResourceLimits, BreachState, ResolvedResourceLimits } from '../src/monitoring/watchdog';
+
+describe('Resource Watchdog', () => {
+  const defaults: ResolvedResourceLimits = { maxCpuPercent: 80, maxMemoryMb: 1024, sustainedMs: 30000, action: 'warn' };
+  const sample = (timestamp: number, cpuUsage: number, memoryMb: number = 100) => ({
+    processId: 'p1',
+    cpuUsage,
+    memoryUsage: memoryMb * 1024 * 1024,
+    timestamp
+  });
+
+  it('should let per-process limits override the global defaults', () => {
+    const limits = resolveResourceLimits({ maxMemoryMb: 256, action: 'restart' }, defaults);
+    expect(limits).toEqual({ maxCpuPercent: 80, maxMemoryMb: 256, sustainedMs: 30000, action: 'restart' });
+  });
+
+  it('should only report a limit exceeded for the whole sustained window', () => {
+    const state: BreachState = {};
+    expect(evaluateSample(state, sample(0, 95), defaults)).toEqual([]);
+    expect(evaluateSample(state, sample(20000, 95), defaults)).toEqual([]);
+
+    const violations = evaluateSample(state, sample(30000, 95), defaults);
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ resource: 'cpu', limit: 80, exceededForMs: 30000, action: 'warn' });
+  });
+
+  it('should reset the window when usage drops below the limit', () => {
+    const state: BreachState = {};
+    evaluateSample(state, sample(0, 95), defaults);
+    evaluateSample(state, sample(20000, 10), defaults);
+    expect(evaluateSample(state, sample(40000, 95), defaults)).toEqual([]);
+  });
+
+  it('should report memory in MB', () => {
+    const limits = { ...defaults, sustainedMs: 0 };
+    const [violation] = evaluateSample({}, sample(0, 1, 2048), limits);
+    expect(violation).toMatchObject({ resource: 'memory', value: 2048, limit: 1024 });
+  });
+});